@@ -0,0 +1,40 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+export default function ConversationThread({ threadId }: { threadId: Id<"conversations"> }) {
+  const thread = useQuery(api.conversations.getConversationThread, { threadId });
+
+  if (thread === undefined) {
+    return <div className="text-xs text-slate-500 dark:text-slate-400">Loading thread...</div>;
+  }
+
+  if (thread === null) {
+    return <div className="text-xs text-slate-500 dark:text-slate-400">Conversation not found.</div>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {thread.items.map((item) => (
+        <div
+          key={item.id}
+          className={`p-2 rounded text-sm ${
+            item.type === "response"
+              ? "ml-8 bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800"
+              : "mr-8 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600"
+          }`}
+        >
+          <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mb-1">
+            <span>{item.type === "response" ? "Our reply" : `@${item.author}`}</span>
+            <span>
+              {item.status} · {new Date(item.at).toLocaleString()}
+            </span>
+          </div>
+          <p className="text-slate-800 dark:text-slate-200">{item.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
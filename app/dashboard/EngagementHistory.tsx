@@ -0,0 +1,40 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+export default function EngagementHistory({ tweetId }: { tweetId: Id<"tweets"> }) {
+  const snapshots = useQuery(api.twitter.getTweetMetricHistory, { tweetId });
+
+  if (snapshots === undefined) {
+    return <div className="text-xs text-slate-500 dark:text-slate-400">Loading history...</div>;
+  }
+
+  if (snapshots.length === 0) {
+    return <div className="text-xs text-slate-500 dark:text-slate-400">No engagement history recorded.</div>;
+  }
+
+  return (
+    <table className="w-full text-xs text-slate-600 dark:text-slate-400">
+      <thead>
+        <tr className="border-b border-slate-300 dark:border-slate-600">
+          <th className="text-left py-1 font-medium">Recorded</th>
+          <th className="text-left py-1 font-medium">Replies</th>
+          <th className="text-left py-1 font-medium">Likes</th>
+          <th className="text-left py-1 font-medium">Retweets</th>
+        </tr>
+      </thead>
+      <tbody>
+        {snapshots.map((snapshot) => (
+          <tr key={snapshot._id} className="border-b border-slate-200 dark:border-slate-700">
+            <td className="py-1">{new Date(snapshot._creationTime).toLocaleString()}</td>
+            <td className="py-1">{snapshot.replyCount}</td>
+            <td className="py-1">{snapshot.likeCount}</td>
+            <td className="py-1">{snapshot.retweetCount}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
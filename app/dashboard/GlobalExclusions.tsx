@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+const categories = ["competitor", "profanity", "spam", "other"];
+
+export default function GlobalExclusions() {
+  const exclusions = useQuery(api.routing.getGlobalExclusions);
+  const createExclusion = useMutation(api.routing.createGlobalExclusion);
+  const setExclusionActive = useMutation(api.routing.setGlobalExclusionActive);
+  const deleteExclusion = useMutation(api.routing.deleteGlobalExclusion);
+
+  const [term, setTerm] = useState("");
+  const [field, setField] = useState<"text" | "author">("text");
+  const [category, setCategory] = useState(categories[0]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createExclusion({ term, field, category });
+      setTerm("");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to add exclusion");
+    }
+  };
+
+  const handleDelete = async (exclusionId: Id<"globalExclusions">) => {
+    if (confirm("Are you sure you want to delete this exclusion?")) {
+      await deleteExclusion({ exclusionId });
+    }
+  };
+
+  if (exclusions === undefined) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold mb-2 text-slate-800 dark:text-slate-200">
+        Global Exclusions
+      </h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        Tweets containing any active term, or posted by any active author, are skipped by every rule.
+      </p>
+
+      <form onSubmit={handleAdd} className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder={field === "author" ? "@username" : "word, phrase or prefix*"}
+          className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+          required
+        />
+        <select
+          value={field}
+          onChange={(e) => setField(e.target.value as "text" | "author")}
+          className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+        >
+          <option value="text">Text</option>
+          <option value="author">Author</option>
+        </select>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+        >
+          {categories.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          Add
+        </button>
+      </form>
+
+      {exclusions.length === 0 ? (
+        <div className="text-sm text-slate-600 dark:text-slate-400">No global exclusions.</div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {exclusions.map((exclusion) => (
+            <span
+              key={exclusion._id}
+              className={`inline-flex items-center gap-2 px-2 py-1 rounded text-xs ${
+                exclusion.isActive
+                  ? "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200"
+                  : "bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400 line-through"
+              }`}
+            >
+              <button
+                onClick={() => setExclusionActive({ exclusionId: exclusion._id, isActive: !exclusion.isActive })}
+                title={exclusion.isActive ? "Disable" : "Enable"}
+              >
+                {exclusion.field === "author" ? `@${exclusion.term}` : exclusion.term}
+              </button>
+              <span className="opacity-70">{exclusion.category}</span>
+              <button onClick={() => handleDelete(exclusion._id)} title="Delete">
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+const inputClass =
+  "px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 text-sm";
+
+// Declare or end a disruption event; while one is declared only incident rules route tweets
+export default function IncidentMode() {
+  const incident = useQuery(api.incidents.getActiveIncident);
+  const declareIncident = useMutation(api.incidents.declareIncident);
+  const endIncident = useMutation(api.incidents.endIncident);
+
+  const [name, setName] = useState("");
+  const [note, setNote] = useState("");
+
+  const handleDeclare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm("Switch routing to the incident rule set? Normal rules stop routing until the incident ends.")) {
+      return;
+    }
+    try {
+      await declareIncident({ name, note: note || undefined });
+      setName("");
+      setNote("");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to declare incident");
+    }
+  };
+
+  const handleEnd = async () => {
+    if (!incident || !confirm(`End ${incident.name} and return to the normal rule set?`)) {
+      return;
+    }
+    try {
+      await endIncident({ incidentId: incident._id });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to end incident");
+    }
+  };
+
+  if (incident === undefined) {
+    return null;
+  }
+
+  if (incident) {
+    return (
+      <div className="mb-4 p-3 flex justify-between items-center bg-orange-50 dark:bg-orange-900/30 rounded-lg border border-orange-200 dark:border-orange-800">
+        <div className="text-sm text-orange-800 dark:text-orange-200">
+          <span className="font-semibold">Incident mode: {incident.name}</span> since{" "}
+          {new Date(incident.declaredAt).toLocaleString()}
+          {incident.declaredBy && ` by ${incident.declaredBy}`}. Only incident rules are routing tweets.
+          {incident.note && <div className="text-xs mt-1">{incident.note}</div>}
+        </div>
+        <button
+          onClick={handleEnd}
+          className="bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          End incident
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleDeclare} className="mb-4 flex gap-2 items-center">
+      <span className="text-sm text-slate-600 dark:text-slate-400">Normal operation.</span>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Fog at DEL"
+        className={inputClass}
+        required
+      />
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note (optional)"
+        className={`flex-1 ${inputClass}`}
+      />
+      <button
+        type="submit"
+        className="bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+      >
+        Declare incident
+      </button>
+    </form>
+  );
+}
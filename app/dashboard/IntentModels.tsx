@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+const inputClass =
+  "px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 text-sm";
+
+export default function IntentModels() {
+  const models = useQuery(api.intents.getIntentModels);
+  const trainModel = useMutation(api.intents.trainIntentModel);
+
+  const [sampleText, setSampleText] = useState("");
+  const prediction = useQuery(api.intents.classifyText, sampleText.trim() ? { text: sampleText } : "skip");
+
+  const handleTrain = async () => {
+    try {
+      const result = await trainModel({});
+      alert(`Trained on ${result.exampleCount} tweets: ${result.labels.join(", ")}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to train intent model");
+    }
+  };
+
+  if (models === undefined) {
+    return null;
+  }
+
+  const active = models.find((model) => model.isActive);
+
+  return (
+    <div className="mt-8">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">Intent Classifier</h3>
+        <button
+          onClick={handleTrain}
+          className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          Train from replied tweets
+        </button>
+      </div>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        Tweets we replied to are labelled with their rule&apos;s intent. Incoming tweets are classified before keyword
+        routing, and rules with an intent match it as well as their keywords.
+      </p>
+
+      {active ? (
+        <div className="mb-4 text-xs text-slate-600 dark:text-slate-400">
+          Active model trained {new Date(active.trainedAt).toLocaleString()} on {active.exampleCount} tweets (
+          {active.vocabularySize} words):{" "}
+          {active.labels.map((label) => `${label.label} (${label.documentCount})`).join(", ")}
+        </div>
+      ) : (
+        <div className="mb-4 text-xs text-slate-500 dark:text-slate-400">
+          No model trained yet; routing uses keywords only.
+        </div>
+      )}
+
+      {active && (
+        <div className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-300">
+          <input
+            type="text"
+            value={sampleText}
+            onChange={(e) => setSampleText(e.target.value)}
+            placeholder="Try a tweet..."
+            className={`${inputClass} flex-1`}
+          />
+          {prediction === null && sampleText.trim() && <span className="text-xs text-slate-500">no known words</span>}
+          {prediction && (
+            <span className="text-xs">
+              <span className="font-mono">{prediction.intent}</span> ({Math.round(prediction.confidence * 100)}%)
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
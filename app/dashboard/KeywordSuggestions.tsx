@@ -0,0 +1,58 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+// Keyword changes suggested by agents' relabelling of misrouted tweets
+export default function KeywordSuggestions() {
+  const suggestions = useQuery(api.corrections.getKeywordSuggestions);
+
+  if (suggestions === undefined) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold mb-2 text-slate-800 dark:text-slate-200">Suggestions from Corrections</h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        Words that keep appearing in tweets agents moved to a rule, and the rule&apos;s terms behind tweets they moved
+        away from it.
+      </p>
+
+      {suggestions.length === 0 ? (
+        <div className="text-xs text-slate-500 dark:text-slate-400">No tweets have been relabelled yet.</div>
+      ) : (
+        <table className="w-full text-xs text-slate-600 dark:text-slate-400">
+          <thead>
+            <tr className="border-b border-slate-300 dark:border-slate-600">
+              <th className="text-left py-1 font-medium">Rule</th>
+              <th className="text-left py-1 font-medium">Missed</th>
+              <th className="text-left py-1 font-medium">Wrongly taken</th>
+              <th className="text-left py-1 font-medium">Consider adding</th>
+              <th className="text-left py-1 font-medium">Consider removing</th>
+            </tr>
+          </thead>
+          <tbody>
+            {suggestions.map((report) => (
+              <tr key={report.ruleId} className="border-b border-slate-200 dark:border-slate-700 align-top">
+                <td className="py-1 font-medium text-slate-800 dark:text-slate-200">{report.ruleName}</td>
+                <td className="py-1">{report.missedCount}</td>
+                <td className="py-1">{report.wronglyTakenCount}</td>
+                <td className="py-1 text-green-700 dark:text-green-400">
+                  {report.add.length === 0
+                    ? "—"
+                    : report.add.map((term) => `${term.term} (${term.count})`).join(", ")}
+                </td>
+                <td className="py-1 text-red-600 dark:text-red-400">
+                  {report.remove.length === 0
+                    ? "—"
+                    : report.remove.map((term) => `${term.term} (${term.count})`).join(", ")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+type PriorityFactor = { factor: string; points: number; detail: string };
+
+// How a tweet's queue priority was built up
+export default function PriorityBreakdown({
+  queuePriority,
+  factors,
+}: {
+  queuePriority: number;
+  factors: PriorityFactor[];
+}) {
+  return (
+    <div className="text-xs text-slate-600 dark:text-slate-400">
+      <div className="mb-1 font-medium text-slate-700 dark:text-slate-300">
+        Queue priority {Math.round(queuePriority)} / 100
+      </div>
+      {factors.map((factor) => (
+        <div key={factor.factor} className="flex gap-2">
+          <span className="w-20 capitalize">{factor.factor}</span>
+          <span className="w-12 text-right font-mono">+{factor.points.toFixed(1)}</span>
+          <span>{factor.detail}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
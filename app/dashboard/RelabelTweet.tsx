@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+const inputClass =
+  "px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 text-sm";
+
+// Tell the router where a misrouted tweet should have gone, and why
+export default function RelabelTweet({
+  tweetId,
+  currentRuleId,
+  onDone,
+}: {
+  tweetId: Id<"tweets">;
+  currentRuleId?: Id<"routingRules">;
+  onDone: () => void;
+}) {
+  const rules = useQuery(api.routing.getRoutingRules);
+  const corrections = useQuery(api.corrections.getTweetCorrections, { tweetId });
+  const relabelTweet = useMutation(api.corrections.relabelTweet);
+
+  const [ruleId, setRuleId] = useState("");
+  const [intent, setIntent] = useState("");
+  const [reason, setReason] = useState("");
+
+  const selectedRule = rules?.find((rule) => rule._id === ruleId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await relabelTweet({
+        tweetId,
+        ruleId: ruleId ? (ruleId as Id<"routingRules">) : undefined,
+        intent: intent || undefined,
+        reason: reason || undefined,
+      });
+      if (!result.rerouted) {
+        alert("Correction recorded. A reply already went out, so the tweet was not re-routed.");
+      }
+      onDone();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to relabel tweet");
+    }
+  };
+
+  if (rules === undefined) {
+    return null;
+  }
+
+  return (
+    <div className="p-3 bg-white dark:bg-slate-700 rounded border border-slate-200 dark:border-slate-600">
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 text-sm text-slate-700 dark:text-slate-300">
+        <label className="flex flex-col gap-1">
+          Should have been
+          <select value={ruleId} onChange={(e) => setRuleId(e.target.value)} className={inputClass}>
+            <option value="">Not routed</option>
+            {rules
+              .filter((rule) => rule._id !== currentRuleId)
+              .map((rule) => (
+                <option key={rule._id} value={rule._id}>
+                  {rule.name}
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Intent
+          <input
+            type="text"
+            value={intent}
+            onChange={(e) => setIntent(e.target.value)}
+            placeholder={selectedRule?.intent ?? "optional"}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 flex-1">
+          Reason
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Mentions a lost bag, not a delay"
+            className={`${inputClass} w-full`}
+          />
+        </label>
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-3 py-2 rounded transition-colors"
+        >
+          Relabel
+        </button>
+      </form>
+
+      {corrections && corrections.length > 0 && (
+        <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          {corrections.map((correction) => (
+            <div key={correction._id}>
+              {new Date(correction.createdAt).toLocaleString()}: {correction.previousRuleName ?? "not routed"} →{" "}
+              {correction.correctedRuleName ?? "not routed"}
+              {correction.correctedBy && ` by ${correction.correctedBy}`}
+              {correction.reason && ` (${correction.reason})`}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
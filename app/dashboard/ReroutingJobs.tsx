@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+const statusOptions = ["skipped", "routed", "pending"];
+
+const inputClass =
+  "px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 text-sm";
+
+function toTimestamp(value: string) {
+  return value ? new Date(value).getTime() : undefined;
+}
+
+export default function ReroutingJobs() {
+  const jobs = useQuery(api.rerouting.listReroutingJobs);
+  const rules = useQuery(api.routing.getRoutingRules);
+  const startJob = useMutation(api.rerouting.startReroutingJob);
+  const cancelJob = useMutation(api.rerouting.cancelReroutingJob);
+  const resumeJob = useMutation(api.rerouting.resumeReroutingJob);
+
+  const [since, setSince] = useState("");
+  const [until, setUntil] = useState("");
+  const [statuses, setStatuses] = useState<string[]>(["skipped"]);
+  const [ruleId, setRuleId] = useState("");
+
+  const toggleStatus = (status: string) => {
+    setStatuses((prev) => (prev.includes(status) ? prev.filter((item) => item !== status) : [...prev, status]));
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm("Re-route matching tweets against the current rules? Tweets already responded to are left alone.")) {
+      return;
+    }
+    try {
+      await startJob({
+        since: toTimestamp(since),
+        until: toTimestamp(until),
+        routingStatuses: statuses.length > 0 ? statuses : undefined,
+        ruleId: ruleId ? (ruleId as Id<"routingRules">) : undefined,
+      });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to start re-routing");
+    }
+  };
+
+  if (jobs === undefined || rules === undefined) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold mb-2 text-slate-800 dark:text-slate-200">Re-route Tweets</h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        Run stored tweets through the current rules. Suggested responses are created or replaced where still pending;
+        tweets already responded to are never changed.
+      </p>
+
+      <form onSubmit={handleStart} className="flex flex-wrap items-end gap-3 mb-4 text-sm text-slate-700 dark:text-slate-300">
+        <label className="flex flex-col gap-1">
+          From
+          <input type="datetime-local" value={since} onChange={(e) => setSince(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          To
+          <input type="datetime-local" value={until} onChange={(e) => setUntil(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Currently matched to
+          <select value={ruleId} onChange={(e) => setRuleId(e.target.value)} className={inputClass}>
+            <option value="">Any rule</option>
+            {rules.map((rule) => (
+              <option key={rule._id} value={rule._id}>
+                {rule.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-3 py-2">
+          {statusOptions.map((status) => (
+            <label key={status} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={statuses.includes(status)}
+                onChange={() => toggleStatus(status)}
+                className="w-4 h-4"
+              />
+              {status}
+            </label>
+          ))}
+        </div>
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          Start Re-routing
+        </button>
+      </form>
+
+      {jobs.length > 0 && (
+        <table className="w-full text-xs text-slate-600 dark:text-slate-400">
+          <thead>
+            <tr className="border-b border-slate-300 dark:border-slate-600">
+              <th className="text-left py-1 font-medium">Started</th>
+              <th className="text-left py-1 font-medium">Scope</th>
+              <th className="text-left py-1 font-medium">Status</th>
+              <th className="text-left py-1 font-medium">Scanned</th>
+              <th className="text-left py-1 font-medium">Re-routed</th>
+              <th className="text-left py-1 font-medium">Unchanged</th>
+              <th className="text-left py-1 font-medium">Responded</th>
+              <th className="text-left py-1 font-medium">Responses</th>
+              <th className="text-left py-1 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map((job) => (
+              <tr key={job._id} className="border-b border-slate-200 dark:border-slate-700">
+                <td className="py-1">{new Date(job.createdAt).toLocaleString()}</td>
+                <td className="py-1">
+                  {(job.routingStatuses ?? ["all"]).join("/")}
+                  {job.ruleName && ` · ${job.ruleName}`}
+                </td>
+                <td className="py-1">{job.stalled ? "stalled" : job.status}</td>
+                <td className="py-1">{job.scanned}</td>
+                <td className="py-1">{job.rerouted}</td>
+                <td className="py-1">{job.unchanged}</td>
+                <td className="py-1">{job.responded}</td>
+                <td className="py-1">
+                  +{job.responsesCreated} ~{job.responsesReplaced} −{job.responsesRemoved}
+                </td>
+                <td className="py-1">
+                  {job.status === "running" && !job.stalled && (
+                    <button
+                      onClick={() => cancelJob({ jobId: job._id })}
+                      className="font-medium text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  {(job.status === "cancelled" || job.stalled) && (
+                    <button
+                      onClick={() => resumeJob({ jobId: job._id })}
+                      className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      Resume
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { Id } from "../../convex/_generated/dataModel";
+import TemplatePreview from "./TemplatePreview";
+
+export type VariantForm = { key: string; template: string; weight: string };
+
+const inputClass =
+  "px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200";
+
+export function formToVariants(variants: VariantForm[]) {
+  return variants.map((variant) => ({
+    key: variant.key.trim(),
+    template: variant.template,
+    weight: Number(variant.weight) || 0,
+  }));
+}
+
+export function variantsToForm(variants: Array<{ key: string; template: string; weight: number }> | undefined) {
+  return (variants ?? []).map((variant) => ({ ...variant, weight: variant.weight.toString() }));
+}
+
+// Next unused letter for a new variant's key
+function nextKey(variants: VariantForm[]) {
+  const used = new Set(variants.map((variant) => variant.key));
+  for (let code = 65; code <= 90; code++) {
+    const key = String.fromCharCode(code);
+    if (!used.has(key)) return key;
+  }
+  return `V${variants.length + 1}`;
+}
+
+export default function ResponseVariantsFields({
+  value,
+  onChange,
+  ruleId,
+  ruleName,
+}: {
+  value: VariantForm[];
+  onChange: (value: VariantForm[]) => void;
+  ruleId?: Id<"routingRules">;
+  ruleName: string;
+}) {
+  const update = (index: number, changes: Partial<VariantForm>) => {
+    onChange(value.map((variant, idx) => (idx === index ? { ...variant, ...changes } : variant)));
+  };
+
+  return (
+    <fieldset className="border border-slate-300 dark:border-slate-600 rounded-lg p-3">
+      <legend className="px-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+        Response variants (optional, replace the template; one is picked per reply by weight)
+      </legend>
+      <div className="flex flex-col gap-3">
+        {value.map((variant, index) => (
+          <div key={index} className="flex flex-col gap-1">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={variant.key}
+                onChange={(e) => update(index, { key: e.target.value })}
+                placeholder="Key"
+                className={`${inputClass} w-20`}
+                required
+              />
+              <input
+                type="number"
+                min="0"
+                value={variant.weight}
+                onChange={(e) => update(index, { weight: e.target.value })}
+                placeholder="Weight"
+                className={`${inputClass} w-24`}
+                required
+              />
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, idx) => idx !== index))}
+                className="text-sm font-medium text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+              >
+                Remove
+              </button>
+            </div>
+            <textarea
+              value={variant.template}
+              onChange={(e) => update(index, { template: e.target.value })}
+              rows={2}
+              className={`${inputClass} w-full`}
+              required
+            />
+            <TemplatePreview template={variant.template} ruleId={ruleId} ruleName={ruleName} />
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange([...value, { key: nextKey(value), template: "", weight: "1" }])}
+          className="self-start text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          Add variant
+        </button>
+      </div>
+    </fieldset>
+  );
+}
@@ -1,12 +1,40 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
+import GlobalExclusions from "./GlobalExclusions";
+import IncidentMode from "./IncidentMode";
+import IntentModels from "./IntentModels";
+import KeywordSuggestions from "./KeywordSuggestions";
+import ReroutingJobs from "./ReroutingJobs";
+import ResponseVariantsFields, { formToVariants, variantsToForm, VariantForm } from "./ResponseVariantsFields";
+import RuleGroups from "./RuleGroups";
+import RuleHistory from "./RuleHistory";
+import RuleWindowsFields, { formToWindows, windowsToForm, WindowForm } from "./RuleWindowsFields";
+import RulePreview from "./RulePreview";
+import TemplatePreview from "./TemplatePreview";
+import VariantReport from "./VariantReport";
+import RuleConditionsFields, {
+  conditionsToForm,
+  describeConditions,
+  emptyConditionsForm,
+  formToConditions,
+} from "./RuleConditionsFields";
 
 export default function RoutingRules() {
   const rules = useQuery(api.routing.getRoutingRules);
+  const groups = useQuery(api.ruleGroups.getRuleGroups);
+
+  // Re-check active windows every minute
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+  const availability = useQuery(api.routing.getRuleAvailability, { now });
+  const deletedRules = useQuery(api.routing.getDeletedRoutingRules);
   const createRule = useMutation(api.routing.createRoutingRule);
   const updateRule = useMutation(api.routing.updateRoutingRule);
   const deleteRule = useMutation(api.routing.deleteRoutingRule);
@@ -14,15 +42,32 @@ export default function RoutingRules() {
 
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<Id<"routingRules"> | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [historyRuleId, setHistoryRuleId] = useState<Id<"routingRules"> | null>(null);
+  const [reportRuleId, setReportRuleId] = useState<Id<"routingRules"> | null>(null);
 
   const [formData, setFormData] = useState({
     name: "",
     keywords: "",
+    expression: "",
+    excludeKeywords: "",
+    conditions: emptyConditionsForm,
+    intent: "",
+    minIntentConfidence: "",
+    groupId: "",
+    activeWindows: [] as WindowForm[],
+    ruleSet: "normal" as "normal" | "incident",
     priority: 5,
     responseTemplate: "",
+    responseVariants: [] as VariantForm[],
     isActive: true,
   });
 
+  const expressionCheck = useQuery(
+    api.routing.validateExpression,
+    formData.expression.trim() ? { expression: formData.expression } : "skip"
+  );
+
   const handleInitializeDefaults = async () => {
     const result = await initializeDefaults({});
     if (!result.success) {
@@ -34,49 +79,110 @@ export default function RoutingRules() {
     setFormData({
       name: "",
       keywords: "",
+      expression: "",
+      excludeKeywords: "",
+      conditions: emptyConditionsForm,
+      intent: "",
+      minIntentConfidence: "",
+      groupId: "",
+      activeWindows: [],
+      ruleSet: "normal",
       priority: 5,
       responseTemplate: "",
+      responseVariants: [],
       isActive: true,
     });
     setIsAdding(false);
     setEditingId(null);
+    setShowPreview(false);
   };
 
   const handleEdit = (rule: NonNullable<typeof rules>[number]) => {
     setFormData({
       name: rule.name,
       keywords: rule.keywords.join(", "),
+      expression: rule.expression ?? "",
+      excludeKeywords: (rule.excludeKeywords ?? []).join(", "),
+      conditions: conditionsToForm(rule.conditions),
+      intent: rule.intent ?? "",
+      minIntentConfidence:
+        rule.minIntentConfidence !== undefined ? Math.round(rule.minIntentConfidence * 100).toString() : "",
+      groupId: rule.groupId ?? "",
+      activeWindows: windowsToForm(rule.activeWindows),
+      ruleSet: rule.ruleSet === "incident" ? "incident" : "normal",
       priority: rule.priority,
       responseTemplate: rule.responseTemplate,
+      responseVariants: variantsToForm(rule.responseVariants),
       isActive: rule.isActive,
     });
     setEditingId(rule._id);
     setIsAdding(true);
   };
 
+  const parseFormTerms = () => {
+    const minIntentConfidence = parseInt(formData.minIntentConfidence);
+    return {
+      keywords: formData.keywords.split(",").map((k) => k.trim()).filter(Boolean),
+      excludeKeywords: formData.excludeKeywords.split(",").map((k) => k.trim()).filter(Boolean),
+      conditions: formToConditions(formData.conditions),
+      intent: formData.intent,
+      minIntentConfidence: Number.isNaN(minIntentConfidence) ? undefined : minIntentConfidence / 100,
+      groupId: formData.groupId ? (formData.groupId as Id<"ruleGroups">) : undefined,
+      activeWindows: formToWindows(formData.activeWindows),
+      ruleSet: formData.ruleSet,
+    };
+  };
+
+  // The preview runs on every edit, so hold it back while the expression is invalid
+  const canPreview = !formData.expression.trim() || expressionCheck?.valid === true;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const keywords = formData.keywords.split(",").map((k) => k.trim()).filter(Boolean);
+    const { keywords, excludeKeywords, conditions, intent, minIntentConfidence, groupId, activeWindows, ruleSet } =
+      parseFormTerms();
+    const responseVariants = formToVariants(formData.responseVariants);
 
-    if (editingId) {
-      await updateRule({
-        ruleId: editingId,
-        name: formData.name,
-        keywords,
-        priority: formData.priority,
-        responseTemplate: formData.responseTemplate,
-        isActive: formData.isActive,
-      });
-    } else {
-      await createRule({
-        name: formData.name,
-        keywords,
-        priority: formData.priority,
-        responseTemplate: formData.responseTemplate,
-        isActive: formData.isActive,
-      });
+    try {
+      if (editingId) {
+        await updateRule({
+          ruleId: editingId,
+          name: formData.name,
+          keywords,
+          expression: formData.expression,
+          excludeKeywords,
+          conditions,
+          intent,
+          minIntentConfidence,
+          groupId: groupId ?? null,
+          activeWindows,
+          ruleSet,
+          priority: formData.priority,
+          responseTemplate: formData.responseTemplate,
+          responseVariants,
+          isActive: formData.isActive,
+        });
+      } else {
+        await createRule({
+          name: formData.name,
+          keywords,
+          expression: formData.expression,
+          excludeKeywords,
+          conditions,
+          intent,
+          minIntentConfidence,
+          groupId,
+          activeWindows,
+          ruleSet,
+          priority: formData.priority,
+          responseTemplate: formData.responseTemplate,
+          responseVariants,
+          isActive: formData.isActive,
+        });
+      }
+      resetForm();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to save rule");
     }
-    resetForm();
   };
 
   const handleDelete = async (ruleId: Id<"routingRules">) => {
@@ -92,6 +198,19 @@ export default function RoutingRules() {
     });
   };
 
+  // Why each rule is or is not routing right now: the live rule set, then its active windows
+  const availabilityNotes = new Map<string, { text: string; live: boolean }>();
+  for (const status of availability?.rules ?? []) {
+    if (!status.inLiveSet) {
+      availabilityNotes.set(status.ruleId, {
+        text: availability?.incident ? "paused during the incident" : "waits for an incident",
+        live: false,
+      });
+    } else if (status.windowDetail) {
+      availabilityNotes.set(status.ruleId, { text: status.windowDetail, live: status.inWindow });
+    }
+  }
+
   if (rules === undefined) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -124,6 +243,8 @@ export default function RoutingRules() {
         </div>
       </div>
 
+      <IncidentMode />
+
       {isAdding && (
         <div className="mb-6 p-4 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-300 dark:border-slate-600">
           <h3 className="text-lg font-semibold mb-4 text-slate-800 dark:text-slate-200">
@@ -160,7 +281,7 @@ export default function RoutingRules() {
             </div>
             <div>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                Keywords (comma-separated)
+                Keywords (comma-separated, matched anywhere in the text)
               </label>
               <input
                 type="text"
@@ -168,9 +289,106 @@ export default function RoutingRules() {
                 onChange={(e) => setFormData({ ...formData, keywords: e.target.value })}
                 placeholder="medical, sick, hospital, doctor"
                 className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
-                required
+                required={!formData.expression.trim() && !formData.intent.trim()}
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Expression (optional, replaces keywords)
+              </label>
+              <input
+                type="text"
+                value={formData.expression}
+                onChange={(e) => setFormData({ ...formData, expression: e.target.value })}
+                placeholder='(sick OR hospital) AND NOT "sick of"'
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 font-mono text-sm"
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Whole words, <code>delay*</code> prefixes, <code>&quot;exact phrase&quot;</code>,{" "}
+                <code>&quot;lost bag&quot;~3</code> proximity, <code>/regex/</code>, combined with AND, OR, NOT and parentheses.
+              </p>
+              {expressionCheck && !expressionCheck.valid && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-1">{expressionCheck.error}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Exclude if contains (comma-separated)
+              </label>
+              <input
+                type="text"
+                value={formData.excludeKeywords}
+                onChange={(e) => setFormData({ ...formData, excludeKeywords: e.target.value })}
+                placeholder="sick of, sick and tired"
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Intent (optional, matches as well as keywords)
+                </label>
+                <input
+                  type="text"
+                  value={formData.intent}
+                  onChange={(e) => setFormData({ ...formData, intent: e.target.value })}
+                  placeholder="flight_delay"
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Min intent confidence (%)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.minIntentConfidence}
+                  onChange={(e) => setFormData({ ...formData, minIntentConfidence: e.target.value })}
+                  placeholder="60"
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Rule group (decides what happens when several rules match)
+              </label>
+              <select
+                value={formData.groupId}
+                onChange={(e) => setFormData({ ...formData, groupId: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+              >
+                <option value="">No group (highest priority wins)</option>
+                {(groups ?? []).map((group) => (
+                  <option key={group._id} value={group._id}>
+                    {group.name} ({group.policy})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <RuleConditionsFields
+              value={formData.conditions}
+              onChange={(conditions) => setFormData({ ...formData, conditions })}
+            />
+            <RuleWindowsFields
+              value={formData.activeWindows}
+              onChange={(activeWindows) => setFormData({ ...formData, activeWindows })}
+            />
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Rule set
+              </label>
+              <select
+                value={formData.ruleSet}
+                onChange={(e) => setFormData({ ...formData, ruleSet: e.target.value as "normal" | "incident" })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+              >
+                <option value="normal">Normal operation</option>
+                <option value="incident">Incident mode only</option>
+              </select>
+            </div>
             <div>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
                 Response Template
@@ -180,9 +398,27 @@ export default function RoutingRules() {
                 onChange={(e) => setFormData({ ...formData, responseTemplate: e.target.value })}
                 rows={3}
                 className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
-                required
+                required={formData.responseVariants.length === 0}
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Variables: <code>{"{{author.firstName}}"}</code>, <code>{"{{author.name}}"}</code>,{" "}
+                <code>{"{{author.username}}"}</code>, <code>{"{{pnr}}"}</code>, <code>{"{{flight}}"}</code>,{" "}
+                <code>{"{{pir}}"}</code>, <code>{"{{airport}}"}</code>, <code>{"{{date}}"}</code>,{" "}
+                <code>{"{{rule.name}}"}</code>, <code>{"{{greeting}}"}</code>. Fallbacks:{" "}
+                <code>{'{{pnr | "your PNR"}}'}</code>. Conditionals: <code>{"{{#if pnr}}...{{else}}...{{/if}}"}</code>.
+              </p>
+              <TemplatePreview
+                template={formData.responseTemplate}
+                ruleId={editingId ?? undefined}
+                ruleName={formData.name}
               />
             </div>
+            <ResponseVariantsFields
+              value={formData.responseVariants}
+              onChange={(responseVariants) => setFormData({ ...formData, responseVariants })}
+              ruleId={editingId ?? undefined}
+              ruleName={formData.name}
+            />
             <div className="flex items-center gap-2">
               <input
                 type="checkbox"
@@ -209,7 +445,26 @@ export default function RoutingRules() {
               >
                 Cancel
               </button>
+              <button
+                type="button"
+                onClick={() => setShowPreview(!showPreview)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                {showPreview ? "Hide preview" : "Preview impact"}
+              </button>
             </div>
+            {showPreview && canPreview && (
+              <RulePreview
+                draft={{
+                  ruleId: editingId ?? undefined,
+                  name: formData.name || "Draft rule",
+                  expression: formData.expression,
+                  priority: formData.priority,
+                  isActive: formData.isActive,
+                  ...parseFormTerms(),
+                }}
+              />
+            )}
           </form>
         </div>
       )}
@@ -250,23 +505,49 @@ export default function RoutingRules() {
                   >
                     <td className="py-3 px-4 text-slate-800 dark:text-slate-200 font-medium">
                       {rule.name}
+                      {rule.groupId && (
+                        <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">
+                          {groups?.find((group) => group._id === rule.groupId)?.name}
+                        </span>
+                      )}
                     </td>
                     <td className="py-3 px-4">
-                      <div className="flex flex-wrap gap-1">
-                        {rule.keywords.slice(0, 3).map((keyword, idx) => (
-                          <span
-                            key={idx}
-                            className="inline-block px-2 py-0.5 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 text-xs rounded"
-                          >
-                            {keyword}
-                          </span>
-                        ))}
-                        {rule.keywords.length > 3 && (
-                          <span className="text-xs text-slate-500 dark:text-slate-400">
-                            +{rule.keywords.length - 3} more
-                          </span>
-                        )}
-                      </div>
+                      {rule.expression ? (
+                        <code className="text-xs text-slate-700 dark:text-slate-300">{rule.expression}</code>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {rule.keywords.slice(0, 3).map((keyword, idx) => (
+                            <span
+                              key={idx}
+                              className="inline-block px-2 py-0.5 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 text-xs rounded"
+                            >
+                              {keyword}
+                            </span>
+                          ))}
+                          {rule.keywords.length > 3 && (
+                            <span className="text-xs text-slate-500 dark:text-slate-400">
+                              +{rule.keywords.length - 3} more
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      {rule.excludeKeywords && rule.excludeKeywords.length > 0 && (
+                        <span className="block mt-1 text-xs text-red-600 dark:text-red-400">
+                          excludes {rule.excludeKeywords.join(", ")}
+                        </span>
+                      )}
+                      {rule.intent && (
+                        <span className="block mt-1 text-xs text-purple-600 dark:text-purple-400">
+                          or intent {rule.intent}
+                          {rule.minIntentConfidence !== undefined &&
+                            ` (${Math.round(rule.minIntentConfidence * 100)}%+)`}
+                        </span>
+                      )}
+                      {describeConditions(rule.conditions).length > 0 && (
+                        <span className="block mt-1 text-xs text-blue-600 dark:text-blue-400">
+                          when {describeConditions(rule.conditions).join(", ")}
+                        </span>
+                      )}
                     </td>
                     <td className="py-3 px-4 text-slate-800 dark:text-slate-200">
                       {rule.priority}
@@ -287,6 +568,20 @@ export default function RoutingRules() {
                         ></span>
                         {rule.isActive ? "Active" : "Inactive"}
                       </button>
+                      {rule.ruleSet === "incident" && (
+                        <span className="block mt-1 text-xs text-orange-600 dark:text-orange-400">incident set</span>
+                      )}
+                      {rule.isActive && availabilityNotes.has(rule._id) && (
+                        <span
+                          className={`block mt-1 text-xs ${
+                            availabilityNotes.get(rule._id)!.live
+                              ? "text-green-700 dark:text-green-400"
+                              : "text-slate-500 dark:text-slate-400"
+                          }`}
+                        >
+                          {availabilityNotes.get(rule._id)!.text}
+                        </span>
+                      )}
                     </td>
                     <td className="py-3 px-4">
                       <div className="flex gap-2">
@@ -296,6 +591,20 @@ export default function RoutingRules() {
                         >
                           Edit
                         </button>
+                        {rule.responseVariants && rule.responseVariants.length > 0 && (
+                          <button
+                            onClick={() => setReportRuleId(reportRuleId === rule._id ? null : rule._id)}
+                            className="text-sm font-medium text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200"
+                          >
+                            A/B
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setHistoryRuleId(historyRuleId === rule._id ? null : rule._id)}
+                          className="text-sm font-medium text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200"
+                        >
+                          History
+                        </button>
                         <button
                           onClick={() => handleDelete(rule._id)}
                           className="text-sm font-medium text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
@@ -310,6 +619,43 @@ export default function RoutingRules() {
           </table>
         </div>
       )}
+
+      {deletedRules && deletedRules.length > 0 && (
+        <div className="mt-4 text-sm text-slate-600 dark:text-slate-400">
+          Deleted rules:{" "}
+          {deletedRules.map((rule, idx) => (
+            <span key={rule._id}>
+              {idx > 0 && ", "}
+              <button
+                onClick={() => setHistoryRuleId(rule._id)}
+                className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                {rule.name}
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {reportRuleId && (
+        <VariantReport
+          ruleId={reportRuleId}
+          ruleName={rules.find((rule) => rule._id === reportRuleId)?.name ?? ""}
+          onClose={() => setReportRuleId(null)}
+        />
+      )}
+
+      {historyRuleId && <RuleHistory ruleId={historyRuleId} onClose={() => setHistoryRuleId(null)} />}
+
+      <RuleGroups />
+
+      <GlobalExclusions />
+
+      <IntentModels />
+
+      <KeywordSuggestions />
+
+      <ReroutingJobs />
     </div>
   );
 }
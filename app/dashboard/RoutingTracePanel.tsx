@@ -0,0 +1,85 @@
+"use client";
+
+import { Doc } from "../../convex/_generated/dataModel";
+
+type RoutingTrace = NonNullable<Doc<"tweets">["routingTrace"]>;
+
+export default function RoutingTracePanel({ trace }: { trace: RoutingTrace }) {
+  // Matching rules first, then the rest by priority
+  const rules = [...trace.rules].sort(
+    (a, b) => Number(b.matched) - Number(a.matched) || b.priority - a.priority
+  );
+
+  return (
+    <div className="text-xs text-slate-600 dark:text-slate-400">
+      <div className="mb-2">
+        <span className="font-medium text-slate-700 dark:text-slate-300">{trace.outcome}</span>
+        <span className="ml-2">evaluated {new Date(trace.evaluatedAt).toLocaleString()}</span>
+        {trace.intent && (
+          <span className="ml-2">
+            · intent <span className="font-mono">{trace.intent.label}</span> (
+            {Math.round(trace.intent.confidence * 100)}%)
+          </span>
+        )}
+      </div>
+      {rules.length > 0 && (
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-300 dark:border-slate-600">
+              <th className="text-left py-1 font-medium">Rule</th>
+              <th className="text-left py-1 font-medium">Priority</th>
+              <th className="text-left py-1 font-medium">Score</th>
+              <th className="text-left py-1 font-medium">Hits</th>
+              <th className="text-left py-1 font-medium">Conditions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule) => (
+              <tr
+                key={rule.ruleId}
+                className={`border-b border-slate-200 dark:border-slate-700 align-top ${
+                  rule.ruleId === trace.matchedRuleId ? "bg-blue-50 dark:bg-blue-900/30" : ""
+                }`}
+              >
+                <td className="py-1 pr-2">
+                  <span className={rule.matched ? "font-medium text-slate-800 dark:text-slate-200" : ""}>
+                    {rule.ruleName}
+                  </span>
+                  {rule.excludedBy && (
+                    <span className="block text-red-600 dark:text-red-400">excluded by {rule.excludedBy}</span>
+                  )}
+                </td>
+                <td className="py-1 pr-2">{rule.priority}</td>
+                <td className="py-1 pr-2">{rule.score}</td>
+                <td className="py-1 pr-2">
+                  {rule.intentMatched && <span className="block text-purple-600 dark:text-purple-400">intent matched</span>}
+                  {rule.hits.length === 0
+                    ? rule.intentMatched
+                      ? null
+                      : "none"
+                    : rule.hits.map((hit, idx) => (
+                        <span key={idx} className="block">
+                          <span className="font-mono">{hit.term}</span> &quot;{hit.text}&quot; at {hit.index}
+                        </span>
+                      ))}
+                </td>
+                <td className="py-1">
+                  {rule.conditions.length === 0
+                    ? "none"
+                    : rule.conditions.map((check) => (
+                        <span
+                          key={check.condition}
+                          className={`block ${check.passed ? "text-green-700 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
+                        >
+                          {check.passed ? "✓" : "✗"} {check.detail}
+                        </span>
+                      ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
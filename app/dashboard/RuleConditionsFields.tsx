@@ -0,0 +1,252 @@
+"use client";
+
+import { Doc } from "../../convex/_generated/dataModel";
+
+type RoutingConditions = NonNullable<Doc<"routingRules">["conditions"]>;
+type EntityType = NonNullable<RoutingConditions["requiredEntities"]>[number];
+
+// Form values for a rule's author and metadata conditions; blank means "no condition"
+export type ConditionsForm = {
+  authorAllowList: string;
+  authorDenyList: string;
+  minFollowers: string;
+  verifiedOnly: boolean;
+  ruleTags: string;
+  minLikes: string;
+  maxAgeMinutes: string;
+  tweetKinds: string[];
+  requiredEntities: EntityType[];
+  minEntityConfidence: string; // percent
+};
+
+const tweetKinds = ["mention", "reply", "quote", "original"];
+const entityTypes: EntityType[] = ["pnr", "flight", "pir", "airport", "date", "phone", "email"];
+
+export const emptyConditionsForm: ConditionsForm = {
+  authorAllowList: "",
+  authorDenyList: "",
+  minFollowers: "",
+  verifiedOnly: false,
+  ruleTags: "",
+  minLikes: "",
+  maxAgeMinutes: "",
+  tweetKinds: [],
+  requiredEntities: [],
+  minEntityConfidence: "",
+};
+
+function splitList(value: string) {
+  return value.split(",").map((item) => item.trim().replace(/^@/, "")).filter(Boolean);
+}
+
+function parseCount(value: string) {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+export function conditionsToForm(conditions: RoutingConditions | undefined): ConditionsForm {
+  if (!conditions) {
+    return emptyConditionsForm;
+  }
+  return {
+    authorAllowList: (conditions.authorAllowList ?? []).join(", "),
+    authorDenyList: (conditions.authorDenyList ?? []).join(", "),
+    minFollowers: conditions.minFollowers?.toString() ?? "",
+    verifiedOnly: conditions.verifiedOnly ?? false,
+    ruleTags: (conditions.ruleTags ?? []).join(", "),
+    minLikes: conditions.minLikes?.toString() ?? "",
+    maxAgeMinutes: conditions.maxAgeMinutes?.toString() ?? "",
+    tweetKinds: conditions.tweetKinds ?? [],
+    requiredEntities: conditions.requiredEntities ?? [],
+    minEntityConfidence:
+      conditions.minEntityConfidence !== undefined ? Math.round(conditions.minEntityConfidence * 100).toString() : "",
+  };
+}
+
+export function formToConditions(form: ConditionsForm): RoutingConditions {
+  const authorAllowList = splitList(form.authorAllowList);
+  const authorDenyList = splitList(form.authorDenyList);
+  const ruleTags = splitList(form.ruleTags);
+  const minEntityConfidence = parseCount(form.minEntityConfidence);
+
+  return {
+    authorAllowList: authorAllowList.length > 0 ? authorAllowList : undefined,
+    authorDenyList: authorDenyList.length > 0 ? authorDenyList : undefined,
+    minFollowers: parseCount(form.minFollowers),
+    verifiedOnly: form.verifiedOnly || undefined,
+    ruleTags: ruleTags.length > 0 ? ruleTags : undefined,
+    minLikes: parseCount(form.minLikes),
+    maxAgeMinutes: parseCount(form.maxAgeMinutes),
+    tweetKinds: form.tweetKinds.length > 0 ? form.tweetKinds : undefined,
+    requiredEntities: form.requiredEntities.length > 0 ? form.requiredEntities : undefined,
+    minEntityConfidence:
+      form.requiredEntities.length > 0 && minEntityConfidence !== undefined ? minEntityConfidence / 100 : undefined,
+  };
+}
+
+// One-line summary for the rules table
+export function describeConditions(conditions: RoutingConditions | undefined) {
+  if (!conditions) {
+    return [];
+  }
+  const parts: string[] = [];
+  if (conditions.authorAllowList?.length) parts.push(`only @${conditions.authorAllowList.join(", @")}`);
+  if (conditions.authorDenyList?.length) parts.push(`not @${conditions.authorDenyList.join(", @")}`);
+  if (conditions.minFollowers !== undefined) parts.push(`${conditions.minFollowers}+ followers`);
+  if (conditions.verifiedOnly) parts.push("verified");
+  if (conditions.ruleTags?.length) parts.push(`tag ${conditions.ruleTags.join("/")}`);
+  if (conditions.minLikes !== undefined) parts.push(`${conditions.minLikes}+ likes`);
+  if (conditions.maxAgeMinutes !== undefined) parts.push(`under ${conditions.maxAgeMinutes} min old`);
+  if (conditions.tweetKinds?.length) parts.push(conditions.tweetKinds.join("/"));
+  if (conditions.requiredEntities?.length) parts.push(`has ${conditions.requiredEntities.join(" + ")}`);
+  return parts;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+
+export default function RuleConditionsFields({
+  value,
+  onChange,
+}: {
+  value: ConditionsForm;
+  onChange: (value: ConditionsForm) => void;
+}) {
+  const toggleKind = (kind: string) => {
+    onChange({
+      ...value,
+      tweetKinds: value.tweetKinds.includes(kind)
+        ? value.tweetKinds.filter((item) => item !== kind)
+        : [...value.tweetKinds, kind],
+    });
+  };
+
+  const toggleEntity = (type: EntityType) => {
+    onChange({
+      ...value,
+      requiredEntities: value.requiredEntities.includes(type)
+        ? value.requiredEntities.filter((item) => item !== type)
+        : [...value.requiredEntities, type],
+    });
+  };
+
+  return (
+    <fieldset className="border border-slate-300 dark:border-slate-600 rounded-lg p-3">
+      <legend className="px-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+        Conditions (optional, all must pass)
+      </legend>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Only these authors</label>
+          <input
+            type="text"
+            value={value.authorAllowList}
+            onChange={(e) => onChange({ ...value, authorAllowList: e.target.value })}
+            placeholder="@journalist, @reporter"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Never these authors</label>
+          <input
+            type="text"
+            value={value.authorDenyList}
+            onChange={(e) => onChange({ ...value, authorDenyList: e.target.value })}
+            placeholder="@IndiGo6E"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Min followers</label>
+          <input
+            type="number"
+            min="0"
+            value={value.minFollowers}
+            onChange={(e) => onChange({ ...value, minFollowers: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Min likes</label>
+          <input
+            type="number"
+            min="0"
+            value={value.minLikes}
+            onChange={(e) => onChange({ ...value, minLikes: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Max age (minutes)</label>
+          <input
+            type="number"
+            min="0"
+            value={value.maxAgeMinutes}
+            onChange={(e) => onChange({ ...value, maxAgeMinutes: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Filter rule tags</label>
+          <input
+            type="text"
+            value={value.ruleTags}
+            onChange={(e) => onChange({ ...value, ruleTags: e.target.value })}
+            placeholder="indigo-mentions"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-slate-700 dark:text-slate-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={value.verifiedOnly}
+            onChange={(e) => onChange({ ...value, verifiedOnly: e.target.checked })}
+            className="w-4 h-4"
+          />
+          Verified authors only
+        </label>
+        <span className="text-slate-500 dark:text-slate-400">Kinds:</span>
+        {tweetKinds.map((kind) => (
+          <label key={kind} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={value.tweetKinds.includes(kind)}
+              onChange={() => toggleKind(kind)}
+              className="w-4 h-4"
+            />
+            {kind}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-slate-700 dark:text-slate-300">
+        <span className="text-slate-500 dark:text-slate-400">Must mention:</span>
+        {entityTypes.map((type) => (
+          <label key={type} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={value.requiredEntities.includes(type)}
+              onChange={() => toggleEntity(type)}
+              className="w-4 h-4"
+            />
+            {type}
+          </label>
+        ))}
+        <label className="flex items-center gap-2">
+          Min confidence
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={value.minEntityConfidence}
+            onChange={(e) => onChange({ ...value, minEntityConfidence: e.target.value })}
+            placeholder="%"
+            className="w-20 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+          />
+        </label>
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+type Policy = "top" | "merge" | "escalate";
+
+const policies: Array<{ value: Policy; label: string }> = [
+  { value: "top", label: "Top rule replies" },
+  { value: "merge", label: "Merge responses" },
+  { value: "escalate", label: "Escalate conflicts" },
+];
+
+const inputClass =
+  "px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 text-sm";
+
+export default function RuleGroups() {
+  const groups = useQuery(api.ruleGroups.getRuleGroups);
+  const createGroup = useMutation(api.ruleGroups.createRuleGroup);
+  const updateGroup = useMutation(api.ruleGroups.updateRuleGroup);
+  const deleteGroup = useMutation(api.ruleGroups.deleteRuleGroup);
+
+  const [name, setName] = useState("");
+  const [policy, setPolicy] = useState<Policy>("top");
+  const [escalateAtPriority, setEscalateAtPriority] = useState("");
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const threshold = parseInt(escalateAtPriority);
+      await createGroup({
+        name,
+        policy,
+        escalateAtPriority: Number.isNaN(threshold) ? undefined : threshold,
+      });
+      setName("");
+      setEscalateAtPriority("");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to add rule group");
+    }
+  };
+
+  const handlePolicyChange = async (groupId: Id<"ruleGroups">, value: Policy) => {
+    try {
+      await updateGroup({ groupId, policy: value });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to update rule group");
+    }
+  };
+
+  const handleDelete = async (groupId: Id<"ruleGroups">) => {
+    if (confirm("Are you sure you want to delete this group?")) {
+      try {
+        await deleteGroup({ groupId });
+      } catch (error) {
+        alert(error instanceof Error ? error.message : "Failed to delete rule group");
+      }
+    }
+  };
+
+  if (groups === undefined) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold mb-2 text-slate-800 dark:text-slate-200">Rule Groups</h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        When a tweet matches several rules of the winner&apos;s group, the group decides: reply with the top rule,
+        merge every matching rule&apos;s response into one reply, or hold the reply for a human when rules at or
+        above a priority conflict.
+      </p>
+
+      <form onSubmit={handleAdd} className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Refunds"
+          className={`flex-1 ${inputClass}`}
+          required
+        />
+        <select value={policy} onChange={(e) => setPolicy(e.target.value as Policy)} className={inputClass}>
+          {policies.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {policy === "escalate" && (
+          <input
+            type="number"
+            min="1"
+            max="10"
+            value={escalateAtPriority}
+            onChange={(e) => setEscalateAtPriority(e.target.value)}
+            placeholder="Priority 7+"
+            className={`w-28 ${inputClass}`}
+          />
+        )}
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+        >
+          Add
+        </button>
+      </form>
+
+      {groups.length === 0 ? (
+        <div className="text-sm text-slate-600 dark:text-slate-400">
+          No rule groups. Ungrouped rules always reply with the highest priority match.
+        </div>
+      ) : (
+        <table className="w-full text-sm text-slate-600 dark:text-slate-400">
+          <thead>
+            <tr className="border-b border-slate-300 dark:border-slate-600">
+              <th className="text-left py-1 font-medium">Group</th>
+              <th className="text-left py-1 font-medium">Policy</th>
+              <th className="text-left py-1 font-medium">Rules</th>
+              <th className="text-left py-1 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group) => (
+              <tr key={group._id} className="border-b border-slate-200 dark:border-slate-700 align-top">
+                <td className="py-2 font-medium text-slate-800 dark:text-slate-200">{group.name}</td>
+                <td className="py-2">
+                  <select
+                    value={group.policy}
+                    onChange={(e) => handlePolicyChange(group._id, e.target.value as Policy)}
+                    className={inputClass}
+                  >
+                    {policies.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  {group.policy === "escalate" && (
+                    <span className="ml-2 text-xs">at priority {group.escalateAtPriority ?? 7}+</span>
+                  )}
+                </td>
+                <td className="py-2">{group.ruleNames.length > 0 ? group.ruleNames.join(", ") : "—"}</td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() => handleDelete(group._id)}
+                    className="text-sm font-medium text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
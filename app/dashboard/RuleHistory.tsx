@@ -0,0 +1,79 @@
+"use client";
+
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+function formatValue(value: string | undefined) {
+  return value === undefined ? "(none)" : value;
+}
+
+// Versions of one rule with their diffs, newest first
+export default function RuleHistory({ ruleId, onClose }: { ruleId: Id<"routingRules">; onClose: () => void }) {
+  const versions = useQuery(api.ruleVersions.getRuleHistory, { ruleId });
+  const rollback = useMutation(api.ruleVersions.rollbackRoutingRule);
+
+  const handleRollback = async (versionId: Id<"routingRuleVersions">, version: number) => {
+    if (confirm(`Roll this rule back to version ${version}?`)) {
+      await rollback({ ruleId, versionId });
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-300 dark:border-slate-600">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+          History{versions && versions.length > 0 ? `: ${versions[0].name}` : ""}
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-sm font-medium text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200"
+        >
+          Close
+        </button>
+      </div>
+
+      {versions === undefined ? (
+        <div className="text-xs text-slate-500 dark:text-slate-400">Loading history...</div>
+      ) : versions.length === 0 ? (
+        <div className="text-xs text-slate-500 dark:text-slate-400">
+          No versions recorded yet. A version is recorded on the next edit or match.
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          {versions.map((version, idx) => (
+            <div
+              key={version._id}
+              className="p-2 bg-white dark:bg-slate-700 rounded border border-slate-200 dark:border-slate-600 text-xs text-slate-600 dark:text-slate-400"
+            >
+              <div className="flex justify-between items-center mb-1">
+                <span>
+                  <span className="font-medium text-slate-800 dark:text-slate-200">v{version.version}</span>{" "}
+                  {version.changeType.replace("_", " ")}
+                  {version.rolledBackTo !== undefined && ` to v${version.rolledBackTo}`} ·{" "}
+                  {new Date(version.createdAt).toLocaleString()}
+                  {version.changedBy && ` · ${version.changedBy}`}
+                </span>
+                {idx > 0 && (
+                  <button
+                    onClick={() => handleRollback(version._id, version.version)}
+                    className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    Roll back to this version
+                  </button>
+                )}
+              </div>
+              {version.changes.map((change) => (
+                <div key={change.field} className="font-mono break-all">
+                  {change.field}: <span className="text-red-600 dark:text-red-400">{formatValue(change.before)}</span>
+                  {" → "}
+                  <span className="text-green-700 dark:text-green-400">{formatValue(change.after)}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
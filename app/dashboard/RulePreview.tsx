@@ -0,0 +1,69 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { FunctionArgs } from "convex/server";
+import { api } from "../../convex/_generated/api";
+
+export type DraftRule = FunctionArgs<typeof api.ruleSimulator.simulateRuleSet>["draftRules"][number];
+
+// Blast radius of a draft rule over recent tweets, shown before it is saved
+export default function RulePreview({ draft }: { draft: DraftRule }) {
+  const result = useQuery(api.ruleSimulator.simulateRuleSet, { draftRules: [draft] });
+
+  if (result === undefined) {
+    return <div className="text-xs text-slate-500 dark:text-slate-400">Simulating against recent tweets...</div>;
+  }
+
+  return (
+    <div className="p-3 bg-white dark:bg-slate-700 rounded border border-slate-200 dark:border-slate-600 text-xs text-slate-600 dark:text-slate-400">
+      <div className="mb-2 text-sm text-slate-700 dark:text-slate-300">
+        {result.changed === 0
+          ? `No change across the last ${result.sampled} tweets.`
+          : `${result.changed} of the last ${result.sampled} tweets would route differently.`}
+      </div>
+      {result.changed > 0 && (
+        <div className="flex gap-4 mb-2">
+          <span className="text-green-700 dark:text-green-400">Skipped → routed: {result.skippedToRouted}</span>
+          <span className="text-red-600 dark:text-red-400">Routed → skipped: {result.routedToSkipped}</span>
+          <span>Switched rule: {result.switched}</span>
+        </div>
+      )}
+
+      <table className="w-full mb-2">
+        <thead>
+          <tr className="border-b border-slate-300 dark:border-slate-600">
+            <th className="text-left py-1 font-medium">Rule</th>
+            <th className="text-left py-1 font-medium">Now</th>
+            <th className="text-left py-1 font-medium">With draft</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.byRule.map((entry) => (
+            <tr key={entry.key} className="border-b border-slate-200 dark:border-slate-700">
+              <td className="py-1">
+                {entry.ruleName}
+                {entry.draft && <span className="ml-1 text-xs text-slate-500 dark:text-slate-400">(new)</span>}
+              </td>
+              <td className="py-1">{entry.before}</td>
+              <td className="py-1">{entry.after}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {result.samples.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <span className="font-medium text-slate-700 dark:text-slate-300">Sample changes</span>
+          {result.samples.map((sample) => (
+            <div key={sample.tweetId} className="border-l-2 border-slate-300 dark:border-slate-600 pl-2">
+              <span className="font-medium">@{sample.authorUsername}</span>: {sample.text}
+              <span className="block">
+                {sample.before ?? "skipped"} → {sample.after ?? "skipped"}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
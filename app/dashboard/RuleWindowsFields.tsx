@@ -0,0 +1,157 @@
+"use client";
+
+import { Doc } from "../../convex/_generated/dataModel";
+
+type ActiveWindow = NonNullable<Doc<"routingRules">["activeWindows"]>[number];
+
+// Form values for one active window; blank means "no limit"
+export type WindowForm = {
+  days: number[];
+  startTime: string;
+  endTime: string;
+  timezone: string;
+  startDate: string;
+  endDate: string;
+};
+
+const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const emptyWindowForm: WindowForm = {
+  days: [],
+  startTime: "",
+  endTime: "",
+  timezone: "",
+  startDate: "",
+  endDate: "",
+};
+
+export function windowsToForm(windows: ActiveWindow[] | undefined): WindowForm[] {
+  return (windows ?? []).map((window) => ({
+    days: window.days ?? [],
+    startTime: window.startTime ?? "",
+    endTime: window.endTime ?? "",
+    timezone: window.timezone ?? "",
+    startDate: window.startDate ?? "",
+    endDate: window.endDate ?? "",
+  }));
+}
+
+export function formToWindows(forms: WindowForm[]): ActiveWindow[] {
+  return forms.map((form) => ({
+    days: form.days.length > 0 ? [...form.days].sort((a, b) => a - b) : undefined,
+    startTime: form.startTime || undefined,
+    endTime: form.endTime || undefined,
+    timezone: form.timezone.trim() || undefined,
+    startDate: form.startDate || undefined,
+    endDate: form.endDate || undefined,
+  }));
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+
+export default function RuleWindowsFields({
+  value,
+  onChange,
+}: {
+  value: WindowForm[];
+  onChange: (value: WindowForm[]) => void;
+}) {
+  const update = (index: number, changes: Partial<WindowForm>) => {
+    onChange(value.map((window, idx) => (idx === index ? { ...window, ...changes } : window)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = value[index].days;
+    update(index, { days: days.includes(day) ? days.filter((item) => item !== day) : [...days, day] });
+  };
+
+  return (
+    <fieldset className="border border-slate-300 dark:border-slate-600 rounded-lg p-3">
+      <legend className="px-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+        Active windows (optional, any one will do)
+      </legend>
+      {value.length === 0 && (
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">The rule applies at any time.</p>
+      )}
+      {value.map((window, index) => (
+        <div key={index} className="mb-3 pb-3 border-b border-slate-200 dark:border-slate-700">
+          <div className="flex flex-wrap gap-3 mb-2 text-sm text-slate-700 dark:text-slate-300">
+            {dayNames.map((name, day) => (
+              <label key={name} className="flex items-center gap-1">
+                <input type="checkbox" checked={window.days.includes(day)} onChange={() => toggleDay(index, day)} />
+                {name}
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, idx) => idx !== index))}
+              className="ml-auto text-sm font-medium text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+            >
+              Remove
+            </button>
+          </div>
+          <div className="grid grid-cols-5 gap-2">
+            <div>
+              <label className={labelClass}>From</label>
+              <input
+                type="time"
+                value={window.startTime}
+                onChange={(e) => update(index, { startTime: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Until</label>
+              <input
+                type="time"
+                value={window.endTime}
+                onChange={(e) => update(index, { endTime: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Timezone</label>
+              <input
+                type="text"
+                value={window.timezone}
+                onChange={(e) => update(index, { timezone: e.target.value })}
+                placeholder="Asia/Kolkata"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Start date</label>
+              <input
+                type="date"
+                value={window.startDate}
+                onChange={(e) => update(index, { startDate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>End date</label>
+              <input
+                type="date"
+                value={window.endDate}
+                onChange={(e) => update(index, { endDate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...value, emptyWindowForm])}
+        className="text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+      >
+        Add window
+      </button>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+        No days means every day; an end time before the start time runs past midnight.
+      </p>
+    </fieldset>
+  );
+}
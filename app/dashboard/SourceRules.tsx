@@ -0,0 +1,322 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useAction } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+const syncStatusStyles: Record<string, string> = {
+  synced: "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200",
+  pending: "bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200",
+  failed: "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200",
+  deleting: "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-400",
+};
+
+export default function SourceRules() {
+  const rules = useQuery(api.sourceRules.listSourceRules);
+  const createRule = useMutation(api.sourceRules.createSourceRule);
+  const updateRule = useMutation(api.sourceRules.updateSourceRule);
+  const deleteRule = useMutation(api.sourceRules.deleteSourceRule);
+  const syncRules = useAction(api.sourceRules.syncSourceRules);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [editingId, setEditingId] = useState<Id<"sourceRules"> | null>(null);
+
+  const [formData, setFormData] = useState({
+    tag: "",
+    query: "",
+    pollingIntervalSeconds: 300,
+    isEnabled: true,
+  });
+
+  const resetForm = () => {
+    setFormData({
+      tag: "",
+      query: "",
+      pollingIntervalSeconds: 300,
+      isEnabled: true,
+    });
+    setIsAdding(false);
+    setEditingId(null);
+  };
+
+  const handleEdit = (rule: NonNullable<typeof rules>[number]) => {
+    setFormData({
+      tag: rule.tag,
+      query: rule.query,
+      pollingIntervalSeconds: rule.pollingIntervalSeconds,
+      isEnabled: rule.isEnabled,
+    });
+    setEditingId(rule._id);
+    setIsAdding(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (editingId) {
+        await updateRule({ sourceRuleId: editingId, ...formData });
+      } else {
+        await createRule(formData);
+      }
+      resetForm();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to save rule");
+    }
+  };
+
+  const handleDelete = async (sourceRuleId: Id<"sourceRules">) => {
+    if (confirm("Delete this filter rule here and on the provider?")) {
+      await deleteRule({ sourceRuleId });
+    }
+  };
+
+  const handleToggleEnabled = async (rule: NonNullable<typeof rules>[number]) => {
+    await updateRule({
+      sourceRuleId: rule._id,
+      isEnabled: !rule.isEnabled,
+    });
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncRules({});
+      alert(result.message);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to sync rules");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString();
+  };
+
+  if (rules === undefined) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-slate-700 dark:border-slate-300"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-200">
+          Filter Rules
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleSync}
+            disabled={isSyncing}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+          >
+            {isSyncing ? "Syncing..." : "Sync with Provider"}
+          </button>
+          <button
+            onClick={() => setIsAdding(true)}
+            className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-4 py-2 rounded-lg transition-colors"
+          >
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      {isAdding && (
+        <div className="mb-6 p-4 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-300 dark:border-slate-600">
+          <h3 className="text-lg font-semibold mb-4 text-slate-800 dark:text-slate-200">
+            {editingId ? "Edit Filter Rule" : "Add New Filter Rule"}
+          </h3>
+          <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Tag
+                </label>
+                <input
+                  type="text"
+                  value={formData.tag}
+                  onChange={(e) => setFormData({ ...formData, tag: e.target.value })}
+                  placeholder="indigo_mentions"
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Polling Interval (seconds)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.pollingIntervalSeconds}
+                  onChange={(e) =>
+                    setFormData({ ...formData, pollingIntervalSeconds: parseInt(e.target.value) })
+                  }
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Query
+              </label>
+              <input
+                type="text"
+                value={formData.query}
+                onChange={(e) => setFormData({ ...formData, query: e.target.value })}
+                placeholder="@IndiGo6E -from:IndiGo6E"
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 font-mono text-sm"
+                required
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="isEnabled"
+                checked={formData.isEnabled}
+                onChange={(e) => setFormData({ ...formData, isEnabled: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <label htmlFor="isEnabled" className="text-sm text-slate-700 dark:text-slate-300">
+                Enabled
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                {editingId ? "Update" : "Create"} Rule
+              </button>
+              <button
+                type="button"
+                onClick={resetForm}
+                className="bg-slate-300 hover:bg-slate-400 dark:bg-slate-600 dark:hover:bg-slate-500 text-slate-800 dark:text-slate-200 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <div className="text-center py-8 text-slate-600 dark:text-slate-400">
+          No filter rules found. Add one, or click &quot;Sync with Provider&quot; to import existing rules.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b border-slate-300 dark:border-slate-600">
+                <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Tag
+                </th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Query
+                </th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Interval
+                </th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Status
+                </th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Sync
+                </th>
+                <th className="text-left py-3 px-4 text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr
+                  key={rule._id}
+                  className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+                >
+                  <td className="py-3 px-4 text-slate-800 dark:text-slate-200 font-medium">
+                    {rule.tag}
+                    {rule.upstreamRuleId && (
+                      <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">
+                        {rule.upstreamRuleId}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-sm font-mono text-slate-700 dark:text-slate-300">
+                    {rule.query}
+                  </td>
+                  <td className="py-3 px-4 text-slate-800 dark:text-slate-200">
+                    {rule.pollingIntervalSeconds}s
+                  </td>
+                  <td className="py-3 px-4">
+                    <button
+                      onClick={() => handleToggleEnabled(rule)}
+                      disabled={rule.syncStatus === "deleting"}
+                      className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium cursor-pointer ${
+                        rule.isEnabled
+                          ? "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200"
+                          : "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-400"
+                      }`}
+                    >
+                      <span
+                        className={`w-2 h-2 rounded-full mr-1 ${
+                          rule.isEnabled ? "bg-green-500" : "bg-slate-400"
+                        }`}
+                      ></span>
+                      {rule.isEnabled ? "Enabled" : "Disabled"}
+                    </button>
+                  </td>
+                  <td className="py-3 px-4">
+                    <span
+                      className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
+                        syncStatusStyles[rule.syncStatus] ?? syncStatusStyles.pending
+                      }`}
+                      title={rule.syncError}
+                    >
+                      {rule.syncStatus}
+                    </span>
+                    {rule.syncError && (
+                      <span className="block text-xs text-red-600 dark:text-red-400 mt-1">
+                        {rule.syncError}
+                      </span>
+                    )}
+                    {rule.lastSyncedAt && (
+                      <span className="block text-xs text-slate-500 dark:text-slate-400 mt-1">
+                        {formatDate(rule.lastSyncedAt)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4">
+                    {rule.syncStatus !== "deleting" && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleEdit(rule)}
+                          className="text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rule._id)}
+                          className="text-sm font-medium text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+// Live render of a response template against the rule's latest tweet or a sample
+export default function TemplatePreview({
+  template,
+  ruleId,
+  ruleName,
+}: {
+  template: string;
+  ruleId?: Id<"routingRules">;
+  ruleName: string;
+}) {
+  const preview = useQuery(
+    api.routing.previewResponseTemplate,
+    template.trim() ? { responseTemplate: template, ruleId, ruleName } : "skip"
+  );
+
+  if (!preview) {
+    return null;
+  }
+  if (!preview.valid) {
+    return <p className="text-xs text-red-600 dark:text-red-400 mt-1">{preview.error}</p>;
+  }
+
+  return (
+    <div className="mt-2 p-2 bg-white dark:bg-slate-700 rounded border border-slate-200 dark:border-slate-600 text-xs">
+      <div className="text-slate-500 dark:text-slate-400 mb-1">Preview for &quot;{preview.sampleTweet}&quot;</div>
+      <p className="text-sm text-slate-800 dark:text-slate-200">{preview.text}</p>
+      <div
+        className={preview.length > 280 ? "text-red-600 dark:text-red-400 mt-1" : "text-slate-500 dark:text-slate-400 mt-1"}
+      >
+        {preview.length}/280 characters
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,15 @@
 "use client";
 
 import { useState } from "react";
+import Image from "next/image";
 import { useQuery, useAction, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
+import ConversationThread from "./ConversationThread";
+import EngagementHistory from "./EngagementHistory";
+import PriorityBreakdown from "./PriorityBreakdown";
+import RelabelTweet from "./RelabelTweet";
+import RoutingTracePanel from "./RoutingTracePanel";
 
 type StatusFilter = "all" | "pending" | "routed" | "responded" | "skipped";
 
@@ -11,11 +17,21 @@ export default function TweetInbox() {
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [sendingId, setSendingId] = useState<Id<"tweetResponses"> | null>(null);
   const [composeText, setComposeText] = useState<Record<string, string>>({});
+  const [trendingOnly, setTrendingOnly] = useState(false);
+  const [sortBy, setSortBy] = useState<"newest" | "priority">("priority");
+  const [priorityTweetId, setPriorityTweetId] = useState<Id<"tweets"> | null>(null);
+  const [historyTweetId, setHistoryTweetId] = useState<Id<"tweets"> | null>(null);
+  const [traceTweetId, setTraceTweetId] = useState<Id<"tweets"> | null>(null);
+  const [relabelTweetId, setRelabelTweetId] = useState<Id<"tweets"> | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<Id<"conversations"> | null>(null);
 
   const tweets = useQuery(api.routing.getTweetsWithRouting, {
     status: statusFilter === "all" ? undefined : statusFilter,
+    groupByConversation: true,
+    sortBy,
   });
   const sessions = useQuery(api.twitterAuth.listSessions);
+  const incident = useQuery(api.incidents.getActiveIncident);
   const sendResponse = useAction(api.twitterActions.sendResponse);
   const createManualResponse = useMutation(api.twitterActions.createManualResponse);
 
@@ -78,7 +94,9 @@ export default function TweetInbox() {
     );
   };
 
-  if (tweets === undefined) {
+  const visibleTweets = trendingOnly ? tweets?.filter((tweet) => tweet.isTrending) : tweets;
+
+  if (visibleTweets === undefined) {
     return (
       <div className="flex items-center justify-center py-8">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-slate-700 dark:border-slate-300"></div>
@@ -93,6 +111,22 @@ export default function TweetInbox() {
           Tweet Inbox
         </h2>
         <div className="flex gap-2">
+          <button
+            onClick={() => setSortBy(sortBy === "priority" ? "newest" : "priority")}
+            className="px-3 py-1 text-sm rounded-lg transition-colors bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600"
+          >
+            {sortBy === "priority" ? "Sorted by priority" : "Sorted by newest"}
+          </button>
+          <button
+            onClick={() => setTrendingOnly(!trendingOnly)}
+            className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+              trendingOnly
+                ? "bg-orange-600 text-white"
+                : "bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600"
+            }`}
+          >
+            Trending
+          </button>
           {(["all", "pending", "routed", "responded", "skipped"] as StatusFilter[]).map(
             (status) => (
               <button
@@ -117,13 +151,20 @@ export default function TweetInbox() {
         </div>
       )}
 
-      {tweets.length === 0 ? (
+      {incident && (
+        <div className="mb-4 p-3 bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-200 rounded-lg">
+          Incident mode: {incident.name}. New tweets are routed with the incident rule set.
+        </div>
+      )}
+
+      {visibleTweets.length === 0 ? (
         <div className="text-center py-8 text-slate-600 dark:text-slate-400">
-          No tweets found{statusFilter !== "all" ? ` with status "${statusFilter}"` : ""}.
+          No {trendingOnly ? "trending " : ""}tweets found
+          {statusFilter !== "all" ? ` with status "${statusFilter}"` : ""}.
         </div>
       ) : (
         <div className="space-y-4">
-          {tweets.map((tweet) => (
+          {visibleTweets.map((tweet) => (
             <div
               key={tweet._id}
               className="p-4 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-300 dark:border-slate-600"
@@ -136,8 +177,31 @@ export default function TweetInbox() {
                   <span className="text-slate-500 dark:text-slate-400 text-sm">
                     @{tweet.authorUsername}
                   </span>
+                  {tweet.kind !== "original" && (
+                    <span className="inline-block px-2 py-0.5 rounded text-xs font-medium bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200">
+                      {tweet.kind}
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setPriorityTweetId(priorityTweetId === tweet._id ? null : tweet._id)}
+                    title="Why this priority?"
+                    className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${
+                      tweet.queuePriority >= 60
+                        ? "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200"
+                        : tweet.queuePriority >= 35
+                        ? "bg-amber-100 dark:bg-amber-900 text-amber-800 dark:text-amber-200"
+                        : "bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300"
+                    }`}
+                  >
+                    P{Math.round(tweet.queuePriority)}
+                  </button>
+                  {tweet.isTrending && (
+                    <span className="inline-block px-2 py-1 rounded-full text-xs font-medium bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200">
+                      Trending +{tweet.engagementGrowth}
+                    </span>
+                  )}
                   {getStatusBadge(tweet.routingStatus)}
                   <span className="text-xs text-slate-500 dark:text-slate-400">
                     {formatDate(tweet.tweetCreatedAt)}
@@ -147,11 +211,106 @@ export default function TweetInbox() {
 
               <p className="text-slate-800 dark:text-slate-200 mb-3">{tweet.text}</p>
 
+              {priorityTweetId === tweet._id && (
+                <div className="mb-3 p-2 bg-white dark:bg-slate-700 rounded border border-slate-200 dark:border-slate-600">
+                  <PriorityBreakdown queuePriority={tweet.queuePriority} factors={tweet.priorityBreakdown} />
+                </div>
+              )}
+
+              {tweet.quotedTweetId && (
+                <div className="mb-3 p-2 border-l-4 border-slate-300 dark:border-slate-600 text-sm text-slate-600 dark:text-slate-400">
+                  <span className="font-medium">@{tweet.quotedTweetAuthorUsername}</span>: {tweet.quotedTweetText}
+                </div>
+              )}
+
+              {tweet.media && tweet.media.length > 0 && (
+                <div className="mb-3 flex flex-wrap gap-2">
+                  {tweet.media.map((item) => (
+                    <a key={item.url} href={item.url} target="_blank" rel="noopener noreferrer">
+                      <Image
+                        src={item.previewUrl ?? item.url}
+                        alt={`Attached ${item.type}`}
+                        width={120}
+                        height={120}
+                        unoptimized
+                        className="rounded border border-slate-300 dark:border-slate-600 object-cover w-[120px] h-[120px]"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {tweet.hashtags && tweet.hashtags.length > 0 && (
+                <div className="mb-3 flex flex-wrap gap-1">
+                  {tweet.hashtags.map((hashtag) => (
+                    <span
+                      key={hashtag}
+                      className="inline-block px-2 py-0.5 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 text-xs rounded"
+                    >
+                      #{hashtag}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {tweet.intent && tweet.intentConfidence !== undefined && (
+                <div className="mb-2 text-xs text-purple-600 dark:text-purple-400">
+                  Intent: <span className="font-mono">{tweet.intent}</span> ({Math.round(tweet.intentConfidence * 100)}%)
+                </div>
+              )}
+
+              {tweet.extractedEntities && tweet.extractedEntities.length > 0 && (
+                <div className="mb-3 flex flex-wrap gap-1">
+                  {tweet.extractedEntities.map((entity) => (
+                    <span
+                      key={`${entity.type}-${entity.index}`}
+                      title={`${Math.round(entity.confidence * 100)}% confident`}
+                      className={`inline-block px-2 py-0.5 text-xs rounded ${
+                        entity.confidence >= 0.8
+                          ? "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300"
+                          : "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+                      }`}
+                    >
+                      {entity.type.toUpperCase()} {entity.value}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {tweet.matchedRule && (
                 <div className="mb-3 p-2 bg-blue-50 dark:bg-blue-900/30 rounded border border-blue-200 dark:border-blue-800">
                   <span className="text-xs font-medium text-blue-700 dark:text-blue-300">
                     Matched Rule: {tweet.matchedRule.name}
+                    {tweet.matchedRule.version !== undefined && ` (v${tweet.matchedRule.version})`}
+                    {tweet.matchedRule.isDeleted
+                      ? " · rule since deleted"
+                      : !tweet.matchedRule.isCurrentVersion && " · rule since edited"}
                   </span>
+                  {tweet.alsoMatched.length > 0 && (
+                    <span className="block text-xs text-blue-600 dark:text-blue-400">
+                      Also matched: {tweet.alsoMatched.join(", ")}
+                      {tweet.routingPolicy === "merge" && " · responses merged"}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {tweet.escalationReason && (
+                <div className="mb-3 p-2 bg-orange-50 dark:bg-orange-900/30 rounded border border-orange-200 dark:border-orange-800 text-xs text-orange-700 dark:text-orange-300">
+                  Escalated to a human: {tweet.escalationReason}. No automatic reply was drafted.
+                </div>
+              )}
+
+              {tweet.exclusions.length > 0 && (
+                <div className="mb-3 p-2 bg-slate-50 dark:bg-slate-900/30 rounded border border-slate-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-400">
+                  {tweet.exclusions.map((exclusion, idx) => (
+                    <div key={idx}>
+                      {exclusion.scope === "global"
+                        ? `Excluded globally${exclusion.category ? ` (${exclusion.category})` : ""}`
+                        : `Excluded from ${exclusion.ruleName ?? "a deleted rule"}`}
+                      : <span className="font-mono">{exclusion.term}</span> matched &quot;{exclusion.text}&quot;
+                    </div>
+                  ))}
                 </div>
               )}
 
@@ -218,7 +377,68 @@ export default function TweetInbox() {
                 <span>Replies: {tweet.replyCount}</span>
                 <span>Likes: {tweet.likeCount}</span>
                 <span>Retweets: {tweet.retweetCount}</span>
+                {tweet.engagementGrowth > 0 && <span>Growth: +{tweet.engagementGrowth}</span>}
+                {tweet.threadId && tweet.threadTweetCount > 1 && (
+                  <button
+                    onClick={() => setOpenThreadId(openThreadId === tweet.threadId ? null : tweet.threadId!)}
+                    className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    {openThreadId === tweet.threadId ? "Hide thread" : `Thread (${tweet.threadTweetCount})`}
+                  </button>
+                )}
+                <button
+                  onClick={() => setHistoryTweetId(historyTweetId === tweet._id ? null : tweet._id)}
+                  className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  {historyTweetId === tweet._id ? "Hide history" : "History"}
+                </button>
+                {tweet.routingTrace && (
+                  <button
+                    onClick={() => setTraceTweetId(traceTweetId === tweet._id ? null : tweet._id)}
+                    className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    {traceTweetId === tweet._id
+                      ? "Hide explanation"
+                      : tweet.matchedRule
+                      ? "Why this rule?"
+                      : "Why no rule?"}
+                  </button>
+                )}
+                <button
+                  onClick={() => setRelabelTweetId(relabelTweetId === tweet._id ? null : tweet._id)}
+                  className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  {relabelTweetId === tweet._id ? "Cancel relabel" : "Relabel"}
+                </button>
               </div>
+
+              {tweet.threadId && openThreadId === tweet.threadId && (
+                <div className="mt-2">
+                  <ConversationThread threadId={tweet.threadId} />
+                </div>
+              )}
+
+              {historyTweetId === tweet._id && (
+                <div className="mt-2">
+                  <EngagementHistory tweetId={tweet._id} />
+                </div>
+              )}
+
+              {tweet.routingTrace && traceTweetId === tweet._id && (
+                <div className="mt-2">
+                  <RoutingTracePanel trace={tweet.routingTrace} />
+                </div>
+              )}
+
+              {relabelTweetId === tweet._id && (
+                <div className="mt-2">
+                  <RelabelTweet
+                    tweetId={tweet._id}
+                    currentRuleId={tweet.matchedRuleId}
+                    onDone={() => setRelabelTweetId(null)}
+                  />
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,73 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+function percent(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+// A/B comparison of a rule's response variants
+export default function VariantReport({
+  ruleId,
+  ruleName,
+  onClose,
+}: {
+  ruleId: Id<"routingRules">;
+  ruleName: string;
+  onClose: () => void;
+}) {
+  const report = useQuery(api.variantReport.getVariantReport, { ruleId });
+
+  return (
+    <div className="mt-4 p-4 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-300 dark:border-slate-600">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">Response variants: {ruleName}</h3>
+        <button
+          onClick={onClose}
+          className="text-sm font-medium text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200"
+        >
+          Close
+        </button>
+      </div>
+
+      {report === undefined ? (
+        <div className="text-xs text-slate-500 dark:text-slate-400">Loading report...</div>
+      ) : report.length === 0 ? (
+        <div className="text-xs text-slate-500 dark:text-slate-400">No responses for this rule yet.</div>
+      ) : (
+        <table className="w-full text-xs text-slate-600 dark:text-slate-400">
+          <thead>
+            <tr className="border-b border-slate-300 dark:border-slate-600">
+              <th className="text-left py-1 font-medium">Variant</th>
+              <th className="text-left py-1 font-medium">Queued</th>
+              <th className="text-left py-1 font-medium">Sent</th>
+              <th className="text-left py-1 font-medium">Follow-up rate</th>
+              <th className="text-left py-1 font-medium">Negative replies</th>
+              <th className="text-left py-1 font-medium">Moved to DM</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.map((row) => (
+              <tr key={row.variantKey} className="border-b border-slate-200 dark:border-slate-700">
+                <td className="py-1 font-medium text-slate-800 dark:text-slate-200">{row.variantKey}</td>
+                <td className="py-1">{row.queued}</td>
+                <td className="py-1">{row.sent}</td>
+                <td className="py-1">
+                  {percent(row.followUpRate)} ({row.followedUp})
+                </td>
+                <td className="py-1">
+                  {percent(row.negativeRate)} ({row.negative})
+                </td>
+                <td className="py-1">
+                  {percent(row.movedToDmRate)} ({row.movedToDm})
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { usePaginatedQuery, useAction } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+type StatusFilter = "rejected" | "replayed";
+
+const PAGE_SIZE = 20;
+
+export default function WebhookDeliveries() {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("rejected");
+  const [expandedId, setExpandedId] = useState<Id<"webhookDeliveries"> | null>(null);
+  const [replayingId, setReplayingId] = useState<Id<"webhookDeliveries"> | null>(null);
+
+  const {
+    results: deliveries,
+    status: pageStatus,
+    loadMore,
+  } = usePaginatedQuery(api.webhookDeliveries.listWebhookDeliveries, { status: statusFilter }, { initialNumItems: PAGE_SIZE });
+  const replayDelivery = useAction(api.webhookDeliveries.replayWebhookDelivery);
+
+  const handleReplay = async (deliveryId: Id<"webhookDeliveries">) => {
+    setReplayingId(deliveryId);
+    try {
+      const result = await replayDelivery({ deliveryId });
+      alert(result.message);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to replay delivery");
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString();
+  };
+
+  if (pageStatus === "LoadingFirstPage") {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-slate-700 dark:border-slate-300"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-200">
+          Webhook Deliveries
+        </h2>
+        <div className="flex gap-2">
+          {(["rejected", "replayed"] as StatusFilter[]).map((status) => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                statusFilter === status
+                  ? "bg-blue-600 text-white"
+                  : "bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600"
+              }`}
+            >
+              {status.charAt(0).toUpperCase() + status.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {deliveries.length === 0 ? (
+        <div className="text-center py-8 text-slate-600 dark:text-slate-400">
+          No {statusFilter} deliveries.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {deliveries.map((delivery) => (
+            <div
+              key={delivery._id}
+              className="p-4 bg-slate-100 dark:bg-slate-800 rounded-lg border border-slate-300 dark:border-slate-600"
+            >
+              <div className="flex justify-between items-start mb-2">
+                <div className="flex items-center gap-2">
+                  <span className="inline-block px-2 py-1 rounded-full text-xs font-medium bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200">
+                    {delivery.reason}
+                  </span>
+                  {delivery.detail && (
+                    <span className="text-sm text-slate-600 dark:text-slate-400">{delivery.detail}</span>
+                  )}
+                </div>
+                <span className="text-xs text-slate-500 dark:text-slate-400">
+                  {formatDate(delivery.receivedAt)}
+                </span>
+              </div>
+
+              {delivery.replayResult && (
+                <p className="text-sm text-green-700 dark:text-green-300 mb-2">
+                  Replayed {delivery.replayedAt ? formatDate(delivery.replayedAt) : ""}:{" "}
+                  {delivery.replayResult.inserted} inserted, {delivery.replayResult.updated ?? 0} updated,{" "}
+                  {delivery.replayResult.skipped} skipped
+                  {delivery.replayResult.deferred ? `, ${delivery.replayResult.deferred} queued` : ""}
+                </p>
+              )}
+
+              <button
+                onClick={() => setExpandedId(expandedId === delivery._id ? null : delivery._id)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                {expandedId === delivery._id ? "Hide details" : "Show details"}
+              </button>
+
+              {expandedId === delivery._id && (
+                <div className="mt-3 flex flex-col gap-3">
+                  <div>
+                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300 block mb-1">
+                      Headers
+                    </span>
+                    <div className="text-xs font-mono text-slate-600 dark:text-slate-400 bg-white dark:bg-slate-700 rounded p-2">
+                      {delivery.headers.map((header) => (
+                        <div key={header.name}>
+                          {header.name}: {header.value}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300 block mb-1">
+                      Body{delivery.bodyTruncated ? " (truncated)" : ""}
+                    </span>
+                    <textarea
+                      value={delivery.body}
+                      readOnly
+                      rows={8}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 text-xs font-mono"
+                    />
+                  </div>
+                  {delivery.status === "rejected" && (
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => handleReplay(delivery._id)}
+                        disabled={replayingId === delivery._id}
+                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium px-3 py-1 rounded transition-colors"
+                      >
+                        {replayingId === delivery._id ? "Replaying..." : "Replay"}
+                      </button>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">
+                        Replays the body as received; corrected bodies go through{" "}
+                        <span className="font-mono">webhookDeliveries:replayCorrectedWebhookDelivery</span>
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(pageStatus === "CanLoadMore" || pageStatus === "LoadingMore") && (
+        <div className="flex justify-center mt-4">
+          <button
+            onClick={() => loadMore(PAGE_SIZE)}
+            disabled={pageStatus === "LoadingMore"}
+            className="px-3 py-1 text-sm rounded-lg transition-colors bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50"
+          >
+            {pageStatus === "LoadingMore" ? "Loading..." : "Load more"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,11 @@ import Link from "next/link";
 import LoginForm from "./LoginForm";
 import SessionList from "./SessionList";
 import RoutingRules from "./RoutingRules";
+import SourceRules from "./SourceRules";
 import TweetInbox from "./TweetInbox";
+import WebhookDeliveries from "./WebhookDeliveries";
 
-type TabType = "inbox" | "routing" | "sessions" | "login";
+type TabType = "inbox" | "routing" | "sources" | "deliveries" | "sessions" | "login";
 
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState<TabType>("inbox");
@@ -15,6 +17,8 @@ export default function Dashboard() {
   const tabs: { id: TabType; label: string }[] = [
     { id: "inbox", label: "Inbox" },
     { id: "routing", label: "Routing Rules" },
+    { id: "sources", label: "Filter Rules" },
+    { id: "deliveries", label: "Deliveries" },
     { id: "sessions", label: "Sessions" },
     { id: "login", label: "Login" },
   ];
@@ -61,6 +65,8 @@ export default function Dashboard() {
         <div className="bg-white dark:bg-slate-900 rounded-lg">
           {activeTab === "inbox" && <TweetInbox />}
           {activeTab === "routing" && <RoutingRules />}
+          {activeTab === "sources" && <SourceRules />}
+          {activeTab === "deliveries" && <WebhookDeliveries />}
           {activeTab === "sessions" && <SessionList />}
           {activeTab === "login" && <LoginForm />}
         </div>
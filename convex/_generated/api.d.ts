@@ -8,12 +8,41 @@
  * @module
  */
 
+import type * as adapters_generic from "../adapters/generic.js";
+import type * as adapters_registry from "../adapters/registry.js";
+import type * as adapters_twitterApiIo from "../adapters/twitterApiIo.js";
+import type * as adapters_types from "../adapters/types.js";
+import type * as adapters_xApiV2 from "../adapters/xApiV2.js";
+import type * as backfill from "../backfill.js";
+import type * as conversations from "../conversations.js";
+import type * as corrections from "../corrections.js";
+import type * as crons from "../crons.js";
+import type * as deliveryJournal from "../deliveryJournal.js";
+import type * as entityExtraction from "../entityExtraction.js";
 import type * as http from "../http.js";
+import type * as incidents from "../incidents.js";
+import type * as ingestQueue from "../ingestQueue.js";
+import type * as intentClassifier from "../intentClassifier.js";
+import type * as intents from "../intents.js";
 import type * as myFunctions from "../myFunctions.js";
+import type * as rerouting from "../rerouting.js";
+import type * as responseTemplate from "../responseTemplate.js";
 import type * as routing from "../routing.js";
+import type * as routingEngine from "../routingEngine.js";
+import type * as ruleExpression from "../ruleExpression.js";
+import type * as ruleGroups from "../ruleGroups.js";
+import type * as ruleSchedule from "../ruleSchedule.js";
+import type * as ruleSimulator from "../ruleSimulator.js";
+import type * as ruleVersions from "../ruleVersions.js";
+import type * as sourceRules from "../sourceRules.js";
+import type * as tweetScoring from "../tweetScoring.js";
 import type * as twitter from "../twitter.js";
 import type * as twitterActions from "../twitterActions.js";
 import type * as twitterAuth from "../twitterAuth.js";
+import type * as variantReport from "../variantReport.js";
+import type * as webhookAuth from "../webhookAuth.js";
+import type * as webhookDeliveries from "../webhookDeliveries.js";
+import type * as webhookPayload from "../webhookPayload.js";
 
 import type {
   ApiFromModules,
@@ -22,12 +51,41 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  "adapters/generic": typeof adapters_generic;
+  "adapters/registry": typeof adapters_registry;
+  "adapters/twitterApiIo": typeof adapters_twitterApiIo;
+  "adapters/types": typeof adapters_types;
+  "adapters/xApiV2": typeof adapters_xApiV2;
+  backfill: typeof backfill;
+  conversations: typeof conversations;
+  corrections: typeof corrections;
+  crons: typeof crons;
+  deliveryJournal: typeof deliveryJournal;
+  entityExtraction: typeof entityExtraction;
   http: typeof http;
+  incidents: typeof incidents;
+  ingestQueue: typeof ingestQueue;
+  intentClassifier: typeof intentClassifier;
+  intents: typeof intents;
   myFunctions: typeof myFunctions;
+  rerouting: typeof rerouting;
+  responseTemplate: typeof responseTemplate;
   routing: typeof routing;
+  routingEngine: typeof routingEngine;
+  ruleExpression: typeof ruleExpression;
+  ruleGroups: typeof ruleGroups;
+  ruleSchedule: typeof ruleSchedule;
+  ruleSimulator: typeof ruleSimulator;
+  ruleVersions: typeof ruleVersions;
+  sourceRules: typeof sourceRules;
+  tweetScoring: typeof tweetScoring;
   twitter: typeof twitter;
   twitterActions: typeof twitterActions;
   twitterAuth: typeof twitterAuth;
+  variantReport: typeof variantReport;
+  webhookAuth: typeof webhookAuth;
+  webhookDeliveries: typeof webhookDeliveries;
+  webhookPayload: typeof webhookPayload;
 }>;
 
 /**
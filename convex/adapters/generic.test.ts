@@ -0,0 +1,74 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { genericAdapter } from "./generic";
+
+const context = { receivedAt: 1760860900000 };
+
+function fixture(name: string) {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
+describe("genericAdapter.parse", () => {
+  it("normalizes an envelope with flattened and nested authors", () => {
+    const result = genericAdapter.parse(fixture("genericEnvelope.json"), context);
+    if (!result.ok) throw new Error(result.detail);
+
+    expect(result.payload).toMatchObject({
+      event_type: "crm_export",
+      rule_id: "crm",
+      rule_tag: "crm_escalations",
+      timestamp: 1760861000000,
+    });
+
+    const [flattened, nested] = result.payload.tweets;
+    expect(flattened).toMatchObject({
+      id: "g-1",
+      author: { id: "crm-77", userName: "neha_r", name: "Neha R", followers_count: 230, verified: false },
+      created_at: "2026-10-19T08:30:00.000Z",
+      like_count: 3,
+      retweet_count: 0,
+      mentions: ["indigo6e"],
+      hashtags: ["refund"],
+      urls: ["https://example.com/ticket/77"],
+    });
+    // Media without a URL is dropped
+    expect(flattened.media).toEqual([{ type: "photo", url: "https://example.com/receipt.jpg", preview_url: undefined }]);
+
+    expect(nested).toMatchObject({
+      id: "g-2",
+      author: { id: "crm-78", userName: "vik", name: "Vik", followers_count: 12, verified: true },
+      in_reply_to_id: "g-1",
+      quoted_tweet: { id: "q-1", text: "Agent reply", author_username: "IndiGo6E" },
+      created_at: "",
+    });
+  });
+
+  it("accepts a bare array of tweets with defaults for the envelope", () => {
+    const body = JSON.parse(fixture("genericEnvelope.json"));
+    const result = genericAdapter.parse(JSON.stringify(body.tweets), context);
+    if (!result.ok) throw new Error(result.detail);
+
+    expect(result.payload).toMatchObject({
+      event_type: "generic",
+      rule_id: "generic",
+      rule_tag: "",
+      timestamp: context.receivedAt,
+    });
+    expect(result.payload.tweets).toHaveLength(2);
+  });
+
+  // Rejections are dead-lettered by http.ts with their reason
+  it.each([
+    ["bad_json", "tweets=1"],
+    ["missing_tweets", JSON.stringify({ rule_id: "crm" })],
+    ["missing_tweets", "\"just a string\""],
+    ["tweets_not_array", JSON.stringify({ tweets: "g-1" })],
+    ["missing_tweet_id", JSON.stringify([{ text: "hi", author_id: "1" }])],
+    ["missing_tweet_text", JSON.stringify([{ id: "1", text: 5, author_id: "1" }])],
+    ["missing_author", JSON.stringify([{ id: "1", text: "hi", author: {} }])],
+  ])("rejects %s", (reason, body) => {
+    const result = genericAdapter.parse(body, context);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.reason).toBe(reason);
+  });
+});
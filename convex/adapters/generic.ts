@@ -0,0 +1,112 @@
+import {
+  asNumber,
+  asOptionalBoolean,
+  asOptionalNumber,
+  asRecordArray,
+  asString,
+  entitiesFromText,
+  IngestionAdapter,
+  isRecord,
+  normalizeEntityLists,
+  NormalizedTweet,
+  normalizeTweets,
+  parseJson,
+  RawRecord,
+  reject,
+  Rejection,
+} from "./types";
+
+function asStringList(value: unknown) {
+  return Array.isArray(value) ? value.map(asString) : undefined;
+}
+
+// Tweets already close to the internal model; author may be nested or flattened
+function normalizeGenericTweet(tweet: RawRecord, index: number): NormalizedTweet | Rejection {
+  const id = asString(tweet.id);
+  if (!id) {
+    return reject("missing_tweet_id", `tweets[${index}] has no id`);
+  }
+  if (typeof tweet.text !== "string") {
+    return reject("missing_tweet_text", `tweet ${id} has no text`);
+  }
+
+  const author = isRecord(tweet.author) ? tweet.author : {};
+  const authorId = asString(author.id ?? tweet.author_id);
+  if (!authorId) {
+    return reject("missing_author", `tweet ${id} has no author`);
+  }
+
+  const quoted = isRecord(tweet.quoted_tweet) ? tweet.quoted_tweet : undefined;
+  const fromText = entitiesFromText(tweet.text);
+
+  return {
+    id,
+    text: tweet.text,
+    author: {
+      id: authorId,
+      userName: asString(author.username ?? author.userName ?? tweet.author_username) ?? "",
+      name: asString(author.name ?? tweet.author_name) ?? "",
+      followers_count: asOptionalNumber(author.followers_count ?? tweet.author_followers_count),
+      verified: asOptionalBoolean(author.verified ?? tweet.author_verified),
+    },
+    created_at: asString(tweet.created_at) ?? "",
+    retweet_count: asNumber(tweet.retweet_count),
+    like_count: asNumber(tweet.like_count),
+    reply_count: asNumber(tweet.reply_count),
+    in_reply_to_id: asString(tweet.in_reply_to_id),
+    conversation_id: asString(tweet.conversation_id),
+    quoted_tweet: quoted && asString(quoted.id)
+      ? {
+          id: asString(quoted.id)!,
+          text: asString(quoted.text) ?? "",
+          author_username: asString(quoted.author_username) ?? "",
+        }
+      : undefined,
+    ...normalizeEntityLists({
+      mentions: asStringList(tweet.mentions) ?? fromText.mentions,
+      hashtags: asStringList(tweet.hashtags) ?? fromText.hashtags,
+      urls: asStringList(tweet.urls) ?? [],
+    }),
+    media: asRecordArray(tweet.media).flatMap((item) => {
+      const url = asString(item.url);
+      return url ? [{ type: asString(item.type) ?? "photo", url, preview_url: asString(item.preview_url) }] : [];
+    }),
+  };
+}
+
+// Adapter for any source that can post the internal model as plain JSON:
+// either `{ rule_id?, rule_tag?, event_type?, timestamp?, tweets: [...] }` or a bare array of tweets
+export const genericAdapter: IngestionAdapter = {
+  provider: "generic",
+
+  parse(text, { receivedAt }) {
+    const json = parseJson(text);
+    if (!json.ok) {
+      return json;
+    }
+
+    const envelope: RawRecord = Array.isArray(json.body) ? { tweets: json.body } : isRecord(json.body) ? json.body : {};
+    if (!("tweets" in envelope)) {
+      return reject("missing_tweets", "tweets is required");
+    }
+    if (!Array.isArray(envelope.tweets)) {
+      return reject("tweets_not_array", "tweets must be an array");
+    }
+
+    const normalized = normalizeTweets(envelope.tweets, normalizeGenericTweet);
+    if (!normalized.ok) {
+      return normalized;
+    }
+
+    return {
+      ok: true,
+      payload: {
+        event_type: asString(envelope.event_type) ?? "generic",
+        rule_id: asString(envelope.rule_id) ?? "generic",
+        rule_tag: asString(envelope.rule_tag) ?? "",
+        tweets: normalized.tweets,
+        timestamp: typeof envelope.timestamp === "number" ? envelope.timestamp : receivedAt,
+      },
+    };
+  },
+};
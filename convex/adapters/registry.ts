@@ -0,0 +1,22 @@
+import { genericAdapter } from "./generic";
+import { twitterApiIoAdapter } from "./twitterApiIo";
+import { IngestionAdapter } from "./types";
+import { xApiV2Adapter } from "./xApiV2";
+
+// Provider used by /twitter-webhook and by journal entries recorded before adapters existed
+export const DEFAULT_PROVIDER = twitterApiIoAdapter.provider;
+
+const adapters: Record<string, IngestionAdapter> = {
+  [twitterApiIoAdapter.provider]: twitterApiIoAdapter,
+  [xApiV2Adapter.provider]: xApiV2Adapter,
+  [genericAdapter.provider]: genericAdapter,
+};
+
+// Look up the adapter for a provider name, e.g. from /ingest/:provider
+export function getAdapter(provider: string): IngestionAdapter | null {
+  return adapters[provider] ?? null;
+}
+
+export function listProviders() {
+  return Object.keys(adapters);
+}
@@ -0,0 +1,101 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { twitterApiIoAdapter } from "./twitterApiIo";
+
+const context = { receivedAt: 1760860900000 };
+
+function fixture(name: string) {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
+function batchWith(changes: Record<string, unknown>) {
+  return JSON.stringify({ ...JSON.parse(fixture("twitterApiIoBatch.json")), ...changes });
+}
+
+describe("twitterApiIoAdapter.parse", () => {
+  it("normalizes a filter-rule batch", () => {
+    const result = twitterApiIoAdapter.parse(fixture("twitterApiIoBatch.json"), context);
+    if (!result.ok) throw new Error(result.detail);
+
+    const { payload } = result;
+    expect(payload).toMatchObject({
+      event_type: "tweet",
+      rule_id: "rule-indigo-mentions",
+      rule_tag: "indigo_mentions",
+      timestamp: 1760860800000,
+    });
+    expect(payload.tweets).toHaveLength(2);
+
+    const [first, second] = payload.tweets;
+    expect(first).toMatchObject({
+      id: "1979000000000000001",
+      author: { id: "44196397", userName: "asha_k", name: "Asha K", followers_count: 1520, verified: true },
+      created_at: "Sun Oct 19 08:00:00 +0000 2026",
+      retweet_count: 2,
+      like_count: 14,
+      reply_count: 1,
+      conversation_id: "1979000000000000001",
+      mentions: ["indigo6e"],
+      hashtags: ["indigo", "delay"],
+      urls: ["https://example.com/boarding-pass"],
+    });
+    expect(first.in_reply_to_id).toBeUndefined();
+    expect(first.media).toEqual([
+      { type: "photo", url: "https://pbs.twimg.com/media/photo1.jpg", preview_url: undefined },
+      {
+        type: "video",
+        url: "https://video.twimg.com/high.mp4",
+        preview_url: "https://pbs.twimg.com/media/video1-thumb.jpg",
+      },
+    ]);
+
+    // No entities: mentions and hashtags come from the text
+    expect(second).toMatchObject({
+      in_reply_to_id: "1979000000000000001",
+      mentions: ["indigo6e", "asha_k"],
+      hashtags: [],
+      quoted_tweet: { id: "1978999999999999999", text: "Baggage belt 4 is jammed", author_username: "blr_airport" },
+    });
+  });
+
+  it.each([
+    [{ isVerified: false, isBlueVerified: false }, false],
+    [{ isVerified: false }, false],
+    [{ isBlueVerified: false }, false],
+    [{ isVerified: false, isBlueVerified: true }, true],
+    [{ isVerified: true }, true],
+    [{}, undefined],
+  ])("maps verification flags %j to %s", (flags, verified) => {
+    const result = twitterApiIoAdapter.parse(
+      batchWith({ tweets: [{ id: "1", text: "hi", author: { id: "7", ...flags } }] }),
+      context
+    );
+    if (!result.ok) throw new Error(result.detail);
+    expect(result.payload.tweets[0].author.verified).toBe(verified);
+  });
+
+  it("accepts an empty batch", () => {
+    const result = twitterApiIoAdapter.parse(batchWith({ tweets: [] }), context);
+    expect(result.ok && result.payload.tweets).toEqual([]);
+  });
+
+  // Rejections are dead-lettered by http.ts with their reason
+  it.each([
+    ["bad_json", "{not json"],
+    ["not_an_object", "[]"],
+    ["missing_event_type", batchWith({ event_type: undefined })],
+    ["missing_rule_id", batchWith({ rule_id: undefined })],
+    ["missing_rule_tag", batchWith({ rule_tag: undefined })],
+    ["missing_timestamp", batchWith({ timestamp: "yesterday" })],
+    ["missing_tweets", batchWith({ tweets: undefined })],
+    ["tweets_not_array", batchWith({ tweets: { id: "1" } })],
+    ["missing_tweet_id", batchWith({ tweets: [{ text: "hi", author: { id: "1" } }] })],
+    ["missing_tweet_id", batchWith({ tweets: ["not a tweet"] })],
+    ["missing_tweet_text", batchWith({ tweets: [{ id: "1", author: { id: "1" } }] })],
+    ["missing_author", batchWith({ tweets: [{ id: "1", text: "hi", author: { userName: "x" } }] })],
+  ])("rejects %s", (reason, body) => {
+    const result = twitterApiIoAdapter.parse(body, context);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.reason).toBe(reason);
+  });
+});
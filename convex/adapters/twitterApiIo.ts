@@ -0,0 +1,179 @@
+import {
+  asNumber,
+  asOptionalBoolean,
+  asOptionalNumber,
+  asRecordArray,
+  asString,
+  entitiesFromText,
+  IngestionAdapter,
+  isRecord,
+  normalizeEntityLists,
+  NormalizedTweet,
+  normalizeTweets,
+  parseJson,
+  RawRecord,
+  reject,
+  Rejection,
+} from "./types";
+
+// Mentions and hashtags come from `entities`, falling back to the text itself
+function normalizeEntities(tweet: RawRecord, text: string) {
+  const entities = isRecord(tweet.entities) ? tweet.entities : {};
+  const mentionEntities = asRecordArray(entities.user_mentions);
+  const hashtagEntities = asRecordArray(entities.hashtags);
+  const fromText = entitiesFromText(text);
+
+  return normalizeEntityLists({
+    mentions: mentionEntities.length > 0
+      ? mentionEntities.map((mention) => asString(mention.screen_name))
+      : fromText.mentions,
+    hashtags: hashtagEntities.length > 0
+      ? hashtagEntities.map((hashtag) => asString(hashtag.text))
+      : fromText.hashtags,
+    urls: asRecordArray(entities.urls).map((url) => asString(url.expanded_url ?? url.url)),
+  });
+}
+
+// Photos use the image URL; videos and GIFs use their best MP4 variant
+export function normalizeLegacyMedia(tweet: RawRecord) {
+  const extended = tweet.extendedEntities ?? tweet.extended_entities ?? tweet.entities;
+  const media = isRecord(extended) ? asRecordArray(extended.media) : [];
+
+  return media.flatMap((item) => {
+    const type = asString(item.type) ?? "photo";
+    const imageUrl = asString(item.media_url_https ?? item.media_url ?? item.url);
+    const videoInfo = isRecord(item.video_info) ? item.video_info : {};
+    const bestVariant = asRecordArray(videoInfo.variants)
+      .filter((variant) => variant.content_type === "video/mp4")
+      .sort((a, b) => asNumber(b.bitrate) - asNumber(a.bitrate))[0];
+    const url = type === "photo" ? imageUrl : asString(bestVariant?.url) ?? imageUrl;
+
+    if (!url) {
+      return [];
+    }
+    return [{ type, url, preview_url: type === "photo" ? undefined : imageUrl }];
+  });
+}
+
+function normalizeQuotedTweet(tweet: RawRecord) {
+  const quoted = tweet.quoted_tweet ?? tweet.quotedTweet;
+  if (!isRecord(quoted)) {
+    return undefined;
+  }
+  const id = asString(quoted.id);
+  if (!id) {
+    return undefined;
+  }
+  const author = isRecord(quoted.author) ? quoted.author : {};
+  return {
+    id,
+    text: asString(quoted.text) ?? "",
+    author_username: asString(author.userName) ?? "",
+  };
+}
+
+// Either badge counts; an explicit false on one flag means "not verified" even when the other is missing
+function normalizeVerified(author: RawRecord) {
+  const flags = [asOptionalBoolean(author.isVerified), asOptionalBoolean(author.isBlueVerified)];
+  if (flags.includes(true)) {
+    return true;
+  }
+  return flags.includes(false) ? false : undefined;
+}
+
+// Normalize a single tweet to match validator schema (API uses camelCase)
+function normalizeTweet(tweet: RawRecord, index: number): NormalizedTweet | Rejection {
+  const id = asString(tweet.id);
+  if (!id) {
+    return reject("missing_tweet_id", `tweets[${index}] has no id`);
+  }
+  if (typeof tweet.text !== "string") {
+    return reject("missing_tweet_text", `tweet ${id} has no text`);
+  }
+
+  const author = tweet.author;
+  if (!isRecord(author) || !asString(author.id)) {
+    return reject("missing_author", `tweet ${id} has no author`);
+  }
+
+  return {
+    id,
+    text: tweet.text,
+    author: {
+      id: asString(author.id)!,
+      userName: asString(author.userName) ?? "",
+      name: asString(author.name) ?? "",
+      followers_count: asOptionalNumber(author.followers),
+      verified: normalizeVerified(author),
+    },
+    created_at: asString(tweet.createdAt ?? tweet.created_at) ?? "",
+    retweet_count: asNumber(tweet.retweetCount ?? tweet.retweet_count),
+    like_count: asNumber(tweet.likeCount ?? tweet.like_count),
+    reply_count: asNumber(tweet.replyCount ?? tweet.reply_count),
+    in_reply_to_id: asString(tweet.inReplyToId ?? tweet.in_reply_to_id) || undefined,
+    conversation_id: asString(tweet.conversationId ?? tweet.conversation_id) || undefined,
+    quoted_tweet: normalizeQuotedTweet(tweet),
+    ...normalizeEntities(tweet, tweet.text),
+    media: normalizeLegacyMedia(tweet),
+  };
+}
+
+// Normalize a list of twitterapi.io tweet objects (also used by search backfill)
+export function normalizeTwitterApiIoTweets(items: unknown[]) {
+  return normalizeTweets(items, normalizeTweet);
+}
+
+// Adapter for twitterapi.io filter-rule webhooks
+export const twitterApiIoAdapter: IngestionAdapter = {
+  provider: "twitterapi-io",
+
+  parse(text) {
+    const json = parseJson(text);
+    if (!json.ok) {
+      return json;
+    }
+
+    const body = json.body;
+    if (!isRecord(body)) {
+      return reject("not_an_object", "Body must be a JSON object");
+    }
+
+    const eventType = asString(body.event_type);
+    if (eventType === undefined) {
+      return reject("missing_event_type", "event_type is required");
+    }
+    const ruleId = asString(body.rule_id);
+    if (ruleId === undefined) {
+      return reject("missing_rule_id", "rule_id is required");
+    }
+    const ruleTag = asString(body.rule_tag);
+    if (ruleTag === undefined) {
+      return reject("missing_rule_tag", "rule_tag is required");
+    }
+    if (typeof body.timestamp !== "number") {
+      return reject("missing_timestamp", "timestamp must be a number");
+    }
+    if (!("tweets" in body)) {
+      return reject("missing_tweets", "tweets is required");
+    }
+    if (!Array.isArray(body.tweets)) {
+      return reject("tweets_not_array", "tweets must be an array");
+    }
+
+    const normalized = normalizeTwitterApiIoTweets(body.tweets);
+    if (!normalized.ok) {
+      return normalized;
+    }
+
+    return {
+      ok: true,
+      payload: {
+        event_type: eventType,
+        rule_id: ruleId,
+        rule_tag: ruleTag,
+        tweets: normalized.tweets,
+        timestamp: body.timestamp,
+      },
+    };
+  },
+};
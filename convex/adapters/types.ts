@@ -0,0 +1,124 @@
+import { WebhookPayload } from "../twitter";
+
+export type NormalizedTweet = WebhookPayload["tweets"][number];
+
+// Reasons a webhook body can be rejected
+export type RejectionReason =
+  | "bad_json"
+  | "not_an_object"
+  | "unknown_provider"
+  | "missing_event_type"
+  | "missing_rule_id"
+  | "missing_rule_tag"
+  | "missing_timestamp"
+  | "missing_tweets"
+  | "tweets_not_array"
+  | "missing_tweet_id"
+  | "missing_tweet_text"
+  | "missing_author";
+
+export type Rejection = { ok: false; reason: RejectionReason; detail: string };
+
+export type ParseResult = { ok: true; payload: WebhookPayload } | Rejection;
+
+export type VerifyResult = { ok: true } | { ok: false; reason: string };
+
+export type ParseContext = {
+  // When the delivery arrived, for providers whose payloads carry no timestamp
+  receivedAt: number;
+};
+
+// Maps one provider's payload shape to the internal tweet model
+export interface IngestionAdapter {
+  provider: string;
+  parse(body: string, context: ParseContext): ParseResult;
+  // Answer provider-specific GET handshakes; null when the request is not one
+  handshake?(request: Request): Promise<Response | null>;
+  // Check the provider's own delivery signature; replaces the shared-secret check when present
+  verify?(request: Request, rawBody: string): Promise<VerifyResult>;
+}
+
+export type RawRecord = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function asString(value: unknown) {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return undefined;
+}
+
+export function asNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+export function asOptionalNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+export function asOptionalBoolean(value: unknown) {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+export function asRecordArray(value: unknown): RawRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+export function uniqueStrings(values: Array<string | undefined>) {
+  return Array.from(new Set(values.filter((value): value is string => !!value)));
+}
+
+export function reject(reason: RejectionReason, detail: string): Rejection {
+  return { ok: false, reason, detail };
+}
+
+// Parse a body that must be JSON, without deciding its shape
+export function parseJson(text: string): { ok: true; body: unknown } | Rejection {
+  try {
+    return { ok: true, body: JSON.parse(text) };
+  } catch (error) {
+    return reject("bad_json", error instanceof Error ? error.message : "Invalid JSON");
+  }
+}
+
+// Mentions and hashtags pulled from the text when a provider sends no entities
+export function entitiesFromText(text: string) {
+  return {
+    mentions: Array.from(text.matchAll(/@(\w{1,15})/g), (match) => match[1]),
+    hashtags: Array.from(text.matchAll(/#(\w+)/g), (match) => match[1]),
+  };
+}
+
+// Lowercase and dedupe entity lists
+export function normalizeEntityLists(lists: {
+  mentions: Array<string | undefined>;
+  hashtags: Array<string | undefined>;
+  urls: Array<string | undefined>;
+}) {
+  return {
+    mentions: uniqueStrings(lists.mentions.map((mention) => mention?.toLowerCase())),
+    hashtags: uniqueStrings(lists.hashtags.map((hashtag) => hashtag?.toLowerCase())),
+    urls: uniqueStrings(lists.urls),
+  };
+}
+
+// Normalize every tweet in a list, stopping at the first one that cannot be used
+export function normalizeTweets(
+  items: unknown[],
+  normalize: (tweet: RawRecord, index: number) => NormalizedTweet | Rejection
+): { ok: true; tweets: NormalizedTweet[] } | Rejection {
+  const tweets: NormalizedTweet[] = [];
+  for (const [index, item] of items.entries()) {
+    if (!isRecord(item)) {
+      return reject("missing_tweet_id", `tweets[${index}] is not an object`);
+    }
+    const normalized = normalize(item, index);
+    if ("ok" in normalized) {
+      return normalized;
+    }
+    tweets.push(normalized);
+  }
+  return { ok: true, tweets };
+}
@@ -0,0 +1,182 @@
+import { createHmac } from "crypto";
+import { readFileSync } from "fs";
+import { afterEach, describe, expect, it } from "vitest";
+import { xApiV2Adapter } from "./xApiV2";
+
+const context = { receivedAt: 1760860900000 };
+
+function fixture(name: string) {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
+describe("xApiV2Adapter.parse", () => {
+  it("normalizes a filtered-stream tweet with its includes", () => {
+    const result = xApiV2Adapter.parse(fixture("xFilteredStream.json"), context);
+    if (!result.ok) throw new Error(result.detail);
+
+    expect(result.payload).toMatchObject({
+      event_type: "filtered_stream",
+      rule_id: "1580000000000000001",
+      rule_tag: "indigo_complaints",
+      timestamp: context.receivedAt,
+    });
+    expect(result.payload.tweets).toHaveLength(1);
+
+    const [tweet] = result.payload.tweets;
+    expect(tweet).toMatchObject({
+      id: "1979000000000000101",
+      author: { id: "2244994945", userName: "meera_s", name: "Meera S", followers_count: 52000, verified: true },
+      created_at: "2026-10-19T08:10:00.000Z",
+      retweet_count: 5,
+      like_count: 40,
+      reply_count: 2,
+      conversation_id: "1979000000000000101",
+      quoted_tweet: { id: "1979000000000000100", text: "Flights out of DEL affected by fog", author_username: "IndiGo6E" },
+      mentions: ["indigo6e"],
+    });
+    // Long tweets carry their full text in note_tweet
+    expect(tweet.text).toContain("third time this month");
+    expect(tweet.in_reply_to_id).toBeUndefined();
+    expect(tweet.media).toEqual([
+      { type: "photo", url: "https://pbs.twimg.com/media/board.jpg", preview_url: undefined },
+      {
+        type: "video",
+        url: "https://video.twimg.com/queue-2176.mp4",
+        preview_url: "https://pbs.twimg.com/media/queue-thumb.jpg",
+      },
+    ]);
+  });
+
+  it("accepts search-style arrays and defaults the rule without matching_rules", () => {
+    const body = JSON.parse(fixture("xFilteredStream.json"));
+    const result = xApiV2Adapter.parse(
+      JSON.stringify({ data: [body.data, { ...body.data, id: "2" }], includes: body.includes }),
+      context
+    );
+    if (!result.ok) throw new Error(result.detail);
+    expect(result.payload.rule_id).toBe("x-filtered-stream");
+    expect(result.payload.tweets.map((tweet) => tweet.id)).toEqual(["1979000000000000101", "2"]);
+  });
+
+  it("normalizes an Account Activity delivery", () => {
+    const result = xApiV2Adapter.parse(fixture("xAccountActivity.json"), context);
+    if (!result.ok) throw new Error(result.detail);
+
+    expect(result.payload).toMatchObject({
+      event_type: "tweet_create_events",
+      rule_id: "account-activity:145125358",
+      rule_tag: "account_activity",
+      timestamp: context.receivedAt,
+    });
+
+    const [tweet] = result.payload.tweets;
+    // id_str wins over the numeric id, which JSON cannot hold exactly
+    expect(tweet.id).toBe("1979000000000000201");
+    expect(tweet).toMatchObject({
+      author: { id: "3001", userName: "kiran_p", name: "Kiran P", followers_count: 410, verified: false },
+      like_count: 7,
+      retweet_count: 1,
+      in_reply_to_id: "1979000000000000200",
+      quoted_tweet: {
+        id: "1979000000000000199",
+        text: "We are committed to accessible travel",
+        author_username: "IndiGo6E",
+      },
+      mentions: ["indigo6e"],
+      hashtags: ["accessibility"],
+    });
+    expect(tweet.text).toContain("had to walk to the aircraft");
+  });
+
+  // Rejections are dead-lettered by http.ts with their reason
+  it.each([
+    ["bad_json", "<xml/>"],
+    ["not_an_object", "42"],
+    ["missing_tweets", JSON.stringify({ includes: {} })],
+    ["tweets_not_array", JSON.stringify({ tweet_create_events: {} })],
+    ["missing_tweet_id", JSON.stringify({ data: { text: "hi", author_id: "1" } })],
+    ["missing_tweet_text", JSON.stringify({ data: { id: "1", author_id: "1" } })],
+    ["missing_author", JSON.stringify({ data: { id: "1", text: "hi" } })],
+    ["missing_tweet_id", JSON.stringify({ tweet_create_events: [{ text: "hi", user: { id_str: "1" } }] })],
+    ["missing_author", JSON.stringify({ tweet_create_events: [{ id_str: "1", text: "hi" }] })],
+  ])("rejects %s", (reason, body) => {
+    const result = xApiV2Adapter.parse(body, context);
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.reason).toBe(reason);
+  });
+});
+
+describe("xApiV2Adapter.handshake", () => {
+  const secret = process.env.X_CONSUMER_SECRET;
+  afterEach(() => {
+    process.env.X_CONSUMER_SECRET = secret;
+  });
+
+  it("answers the CRC challenge with the token's HMAC-SHA256", async () => {
+    process.env.X_CONSUMER_SECRET = "consumer-secret";
+    const response = await xApiV2Adapter.handshake!(
+      new Request("https://example.convex.site/ingest/x-api-v2?crc_token=challenge-123")
+    );
+
+    expect(response?.status).toBe(200);
+    const expected = createHmac("sha256", "consumer-secret").update("challenge-123").digest("base64");
+    expect(await response!.json()).toEqual({ response_token: `sha256=${expected}` });
+  });
+
+  it("ignores requests without a crc_token", async () => {
+    process.env.X_CONSUMER_SECRET = "consumer-secret";
+    expect(await xApiV2Adapter.handshake!(new Request("https://example.convex.site/ingest/x-api-v2"))).toBeNull();
+  });
+
+  it("fails when the consumer secret is not configured", async () => {
+    delete process.env.X_CONSUMER_SECRET;
+    const response = await xApiV2Adapter.handshake!(
+      new Request("https://example.convex.site/ingest/x-api-v2?crc_token=challenge-123")
+    );
+    expect(response?.status).toBe(500);
+  });
+});
+
+describe("xApiV2Adapter.verify", () => {
+  const secret = process.env.X_CONSUMER_SECRET;
+  afterEach(() => {
+    process.env.X_CONSUMER_SECRET = secret;
+  });
+
+  const body = fixture("xAccountActivity.json");
+
+  function delivery(signature?: string) {
+    return new Request("https://example.convex.site/ingest/x-api-v2", {
+      method: "POST",
+      headers: signature ? { "x-twitter-webhooks-signature": signature } : {},
+      body,
+    });
+  }
+
+  it("accepts a body signed with the consumer secret", async () => {
+    process.env.X_CONSUMER_SECRET = "consumer-secret";
+    const signature = createHmac("sha256", "consumer-secret").update(body).digest("base64");
+    expect(await xApiV2Adapter.verify!(delivery(`sha256=${signature}`), body)).toEqual({ ok: true });
+  });
+
+  it.each([
+    ["a missing signature", undefined],
+    ["another key's signature", `sha256=${createHmac("sha256", "other-secret").update(body).digest("base64")}`],
+    ["a hex signature", `sha256=${createHmac("sha256", "consumer-secret").update(body).digest("hex")}`],
+  ])("rejects %s", async (_case, signature) => {
+    process.env.X_CONSUMER_SECRET = "consumer-secret";
+    expect((await xApiV2Adapter.verify!(delivery(signature), body)).ok).toBe(false);
+  });
+
+  it("rejects a tampered body", async () => {
+    process.env.X_CONSUMER_SECRET = "consumer-secret";
+    const signature = createHmac("sha256", "consumer-secret").update(body).digest("base64");
+    expect((await xApiV2Adapter.verify!(delivery(`sha256=${signature}`), `${body} `)).ok).toBe(false);
+  });
+
+  it("rejects every delivery when the consumer secret is not configured", async () => {
+    delete process.env.X_CONSUMER_SECRET;
+    const signature = createHmac("sha256", "").update(body).digest("base64");
+    expect((await xApiV2Adapter.verify!(delivery(`sha256=${signature}`), body)).ok).toBe(false);
+  });
+});
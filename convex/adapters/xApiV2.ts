@@ -0,0 +1,305 @@
+import { normalizeLegacyMedia } from "./twitterApiIo";
+import {
+  asNumber,
+  asOptionalBoolean,
+  asOptionalNumber,
+  asRecordArray,
+  asString,
+  entitiesFromText,
+  IngestionAdapter,
+  isRecord,
+  normalizeEntityLists,
+  NormalizedTweet,
+  normalizeTweets,
+  parseJson,
+  RawRecord,
+  reject,
+  Rejection,
+} from "./types";
+import { timingSafeEqual } from "../webhookAuth";
+
+// Header X signs Account Activity POSTs in
+export const X_SIGNATURE_HEADER = "x-twitter-webhooks-signature";
+
+type Includes = {
+  users: Map<string, RawRecord>;
+  tweets: Map<string, RawRecord>;
+  media: Map<string, RawRecord>;
+};
+
+function indexBy(records: RawRecord[], key: string) {
+  const map = new Map<string, RawRecord>();
+  for (const record of records) {
+    const id = asString(record[key]);
+    if (id) map.set(id, record);
+  }
+  return map;
+}
+
+function readIncludes(body: RawRecord): Includes {
+  const includes = isRecord(body.includes) ? body.includes : {};
+  return {
+    users: indexBy(asRecordArray(includes.users), "id"),
+    tweets: indexBy(asRecordArray(includes.tweets), "id"),
+    media: indexBy(asRecordArray(includes.media), "media_key"),
+  };
+}
+
+// v2 media objects carry a direct URL for photos and variants for video
+function normalizeV2Media(tweet: RawRecord, includes: Includes) {
+  const attachments = isRecord(tweet.attachments) ? tweet.attachments : {};
+  const mediaKeys = Array.isArray(attachments.media_keys) ? attachments.media_keys : [];
+
+  return mediaKeys.flatMap((key) => {
+    const item = includes.media.get(String(key));
+    if (!item) return [];
+
+    const type = asString(item.type) ?? "photo";
+    const bestVariant = asRecordArray(item.variants)
+      .filter((variant) => variant.content_type === "video/mp4")
+      .sort((a, b) => asNumber(b.bit_rate) - asNumber(a.bit_rate))[0];
+    const url = asString(item.url) ?? asString(bestVariant?.url);
+    if (!url) return [];
+
+    return [{ type, url, preview_url: asString(item.preview_image_url) }];
+  });
+}
+
+// Normalize a v2 tweet object, resolving its author and references from `includes`
+function normalizeV2Tweet(tweet: RawRecord, index: number, includes: Includes): NormalizedTweet | Rejection {
+  const id = asString(tweet.id);
+  if (!id) {
+    return reject("missing_tweet_id", `data[${index}] has no id`);
+  }
+  const noteTweet = isRecord(tweet.note_tweet) ? tweet.note_tweet : {};
+  const text = asString(noteTweet.text) ?? asString(tweet.text);
+  if (text === undefined) {
+    return reject("missing_tweet_text", `tweet ${id} has no text`);
+  }
+  const authorId = asString(tweet.author_id);
+  if (!authorId) {
+    return reject("missing_author", `tweet ${id} has no author_id`);
+  }
+
+  const author = includes.users.get(authorId) ?? {};
+  const authorMetrics = isRecord(author.public_metrics) ? author.public_metrics : {};
+  const metrics = isRecord(tweet.public_metrics) ? tweet.public_metrics : {};
+  const references = asRecordArray(tweet.referenced_tweets);
+  const repliedTo = references.find((reference) => reference.type === "replied_to");
+  const quoted = references.find((reference) => reference.type === "quoted");
+  const quotedId = asString(quoted?.id);
+  const quotedTweet = quotedId ? includes.tweets.get(quotedId) : undefined;
+  const quotedAuthor = quotedTweet ? includes.users.get(asString(quotedTweet.author_id) ?? "") : undefined;
+
+  const entities = isRecord(tweet.entities) ? tweet.entities : {};
+  const fromText = entitiesFromText(text);
+  const mentionEntities = asRecordArray(entities.mentions);
+  const hashtagEntities = asRecordArray(entities.hashtags);
+
+  return {
+    id,
+    text,
+    author: {
+      id: authorId,
+      userName: asString(author.username) ?? "",
+      name: asString(author.name) ?? "",
+      followers_count: asOptionalNumber(authorMetrics.followers_count),
+      verified: asOptionalBoolean(author.verified),
+    },
+    created_at: asString(tweet.created_at) ?? "",
+    retweet_count: asNumber(metrics.retweet_count),
+    like_count: asNumber(metrics.like_count),
+    reply_count: asNumber(metrics.reply_count),
+    in_reply_to_id: asString(repliedTo?.id),
+    conversation_id: asString(tweet.conversation_id),
+    quoted_tweet: quotedId
+      ? {
+          id: quotedId,
+          text: asString(quotedTweet?.text) ?? "",
+          author_username: asString(quotedAuthor?.username) ?? "",
+        }
+      : undefined,
+    ...normalizeEntityLists({
+      mentions: mentionEntities.length > 0
+        ? mentionEntities.map((mention) => asString(mention.username))
+        : fromText.mentions,
+      hashtags: hashtagEntities.length > 0
+        ? hashtagEntities.map((hashtag) => asString(hashtag.tag))
+        : fromText.hashtags,
+      urls: asRecordArray(entities.urls).map((url) => asString(url.expanded_url ?? url.url)),
+    }),
+    media: normalizeV2Media(tweet, includes),
+  };
+}
+
+// Normalize a v1.1 tweet object as delivered by the Account Activity API
+function normalizeV1Tweet(tweet: RawRecord, index: number): NormalizedTweet | Rejection {
+  const id = asString(tweet.id_str ?? tweet.id);
+  if (!id) {
+    return reject("missing_tweet_id", `tweet_create_events[${index}] has no id_str`);
+  }
+  const extended = isRecord(tweet.extended_tweet) ? tweet.extended_tweet : {};
+  const text = asString(extended.full_text) ?? asString(tweet.full_text) ?? asString(tweet.text);
+  if (text === undefined) {
+    return reject("missing_tweet_text", `tweet ${id} has no text`);
+  }
+  const user = tweet.user;
+  if (!isRecord(user) || !asString(user.id_str ?? user.id)) {
+    return reject("missing_author", `tweet ${id} has no user`);
+  }
+
+  const entities = isRecord(extended.entities) ? extended.entities : isRecord(tweet.entities) ? tweet.entities : {};
+  const quoted = isRecord(tweet.quoted_status) ? tweet.quoted_status : undefined;
+  const quotedUser = quoted && isRecord(quoted.user) ? quoted.user : {};
+
+  return {
+    id,
+    text,
+    author: {
+      id: asString(user.id_str ?? user.id)!,
+      userName: asString(user.screen_name) ?? "",
+      name: asString(user.name) ?? "",
+      followers_count: asOptionalNumber(user.followers_count),
+      verified: asOptionalBoolean(user.verified),
+    },
+    created_at: asString(tweet.created_at) ?? "",
+    retweet_count: asNumber(tweet.retweet_count),
+    like_count: asNumber(tweet.favorite_count),
+    reply_count: asNumber(tweet.reply_count),
+    in_reply_to_id: asString(tweet.in_reply_to_status_id_str) || undefined,
+    conversation_id: undefined,
+    quoted_tweet: quoted && asString(quoted.id_str)
+      ? {
+          id: asString(quoted.id_str)!,
+          text: asString(quoted.full_text ?? quoted.text) ?? "",
+          author_username: asString(quotedUser.screen_name) ?? "",
+        }
+      : undefined,
+    ...normalizeEntityLists({
+      mentions: asRecordArray(entities.user_mentions).map((mention) => asString(mention.screen_name)),
+      hashtags: asRecordArray(entities.hashtags).map((hashtag) => asString(hashtag.text)),
+      urls: asRecordArray(entities.urls).map((url) => asString(url.expanded_url ?? url.url)),
+    }),
+    media: normalizeLegacyMedia(isRecord(tweet.extended_tweet) ? { ...tweet, ...extended } : tweet),
+  };
+}
+
+function toBase64(buffer: ArrayBuffer) {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+// HMAC-SHA256 keyed with the app's consumer secret, base64 encoded
+async function signBase64(consumerSecret: string, message: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(consumerSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toBase64(await crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+}
+
+// Adapter for the official X API: v2 filtered stream and Account Activity webhooks
+export const xApiV2Adapter: IngestionAdapter = {
+  provider: "x-api-v2",
+
+  parse(text, { receivedAt }) {
+    const json = parseJson(text);
+    if (!json.ok) {
+      return json;
+    }
+
+    const body = json.body;
+    if (!isRecord(body)) {
+      return reject("not_an_object", "Body must be a JSON object");
+    }
+
+    // Account Activity API delivery
+    if ("tweet_create_events" in body) {
+      if (!Array.isArray(body.tweet_create_events)) {
+        return reject("tweets_not_array", "tweet_create_events must be an array");
+      }
+      const normalized = normalizeTweets(body.tweet_create_events, normalizeV1Tweet);
+      if (!normalized.ok) {
+        return normalized;
+      }
+      return {
+        ok: true,
+        payload: {
+          event_type: "tweet_create_events",
+          rule_id: `account-activity:${asString(body.for_user_id) ?? "unknown"}`,
+          rule_tag: "account_activity",
+          tweets: normalized.tweets,
+          timestamp: receivedAt,
+        },
+      };
+    }
+
+    // Filtered stream (single tweet) or search-style (array) delivery
+    if (!("data" in body)) {
+      return reject("missing_tweets", "data or tweet_create_events is required");
+    }
+    const data = Array.isArray(body.data) ? body.data : [body.data];
+    const includes = readIncludes(body);
+    const normalized = normalizeTweets(data, (tweet, index) => normalizeV2Tweet(tweet, index, includes));
+    if (!normalized.ok) {
+      return normalized;
+    }
+
+    const matchingRule = asRecordArray(body.matching_rules)[0];
+    return {
+      ok: true,
+      payload: {
+        event_type: "filtered_stream",
+        rule_id: asString(matchingRule?.id) ?? "x-filtered-stream",
+        rule_tag: asString(matchingRule?.tag) ?? "",
+        tweets: normalized.tweets,
+        timestamp: receivedAt,
+      },
+    };
+  },
+
+  // Account Activity CRC challenge: HMAC the token with the app's consumer secret
+  async handshake(request) {
+    const crcToken = new URL(request.url).searchParams.get("crc_token");
+    if (!crcToken) {
+      return null;
+    }
+
+    const consumerSecret = process.env.X_CONSUMER_SECRET;
+    if (!consumerSecret) {
+      console.error("X_CONSUMER_SECRET environment variable is not set");
+      return new Response(
+        JSON.stringify({ error: "CRC check is not configured" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ response_token: `sha256=${await signBase64(consumerSecret, crcToken)}` }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  },
+
+  // Account Activity POSTs carry `sha256=` plus the body's HMAC, keyed like the CRC check
+  async verify(request, rawBody) {
+    const consumerSecret = process.env.X_CONSUMER_SECRET;
+    if (!consumerSecret) {
+      console.error("X_CONSUMER_SECRET environment variable is not set");
+      return { ok: false, reason: "Signature check is not configured" };
+    }
+
+    const provided = request.headers.get(X_SIGNATURE_HEADER);
+    if (!provided) {
+      return { ok: false, reason: "Missing signature header" };
+    }
+
+    const expected = `sha256=${await signBase64(consumerSecret, rawBody)}`;
+    if (!timingSafeEqual(provided, expected)) {
+      return { ok: false, reason: "Signature mismatch" };
+    }
+    return { ok: true };
+  },
+};
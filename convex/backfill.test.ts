@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { ActionCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { backfillRule, createTwitterApiSearchClient } from "./backfill";
+
+const PAGE_SIZE = 3;
+
+// Fake twitterapi.io advanced search over tweets with ids from..to, newest first.
+// Honours since_id and max_id (inclusive) in the query and pages with an offset cursor.
+function fakeSearchServer(from: number, to: number) {
+  const ids = Array.from({ length: to - from + 1 }, (_, index) => String(to - index));
+  const requests: Array<{ url: URL; apiKey: string | null }> = [];
+
+  const fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input));
+    requests.push({ url, apiKey: new Headers(init?.headers).get("X-API-Key") });
+
+    const query = url.searchParams.get("query") ?? "";
+    const sinceId = /since_id:(\d+)/.exec(query)?.[1];
+    const maxId = /max_id:(\d+)/.exec(query)?.[1];
+    const matching = ids.filter(
+      (id) => (!sinceId || Number(id) > Number(sinceId)) && (!maxId || Number(id) <= Number(maxId))
+    );
+    const start = Number(url.searchParams.get("cursor") ?? 0);
+    const hasNextPage = start + PAGE_SIZE < matching.length;
+
+    return Response.json({
+      tweets: matching
+        .slice(start, start + PAGE_SIZE)
+        .map((id) => ({ id, text: `Flight update ${id}`, author: { id: "7", userName: "asha_k" } })),
+      has_next_page: hasNextPage,
+      next_cursor: hasNextPage ? String(start + PAGE_SIZE) : "",
+    });
+  };
+
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+// Just enough of an action context to record what backfillRule stores and schedules
+function fakeActionCtx() {
+  const stored: string[] = [];
+  let scheduled = 0;
+  const ctx = {
+    runMutation: async (_ref: unknown, args: { payload: { tweets: Array<{ id: string }> } }) => {
+      const ids = args.payload.tweets.map((tweet) => tweet.id);
+      stored.push(...ids);
+      return { insertedCount: ids.length, insertedTweetIds: ids };
+    },
+    scheduler: {
+      runAfter: async () => {
+        scheduled++;
+      },
+    },
+  };
+  return { ctx: ctx as unknown as ActionCtx, stored, scheduledCount: () => scheduled };
+}
+
+function cursorWith(fields: Partial<Doc<"backfillCursors">>) {
+  return { ruleId: "rule-1", ruleTag: "indigo", query: "@IndiGo6E", isEnabled: true, ...fields } as Doc<"backfillCursors">;
+}
+
+describe("createTwitterApiSearchClient", () => {
+  it("calls advanced search with the key, query and cursor", async () => {
+    const server = fakeSearchServer(1, 10);
+    const client = createTwitterApiSearchClient({ apiKey: "key-1", baseUrl: "https://api.example.com/", fetch: server.fetch });
+
+    const first = await client.searchTweets({ query: "@IndiGo6E" });
+    const second = await client.searchTweets({ query: "@IndiGo6E", cursor: first.nextCursor! });
+
+    const [request] = server.requests;
+    expect(request.apiKey).toBe("key-1");
+    expect(request.url.origin + request.url.pathname).toBe("https://api.example.com/twitter/tweet/advanced_search");
+    expect(request.url.searchParams.get("query")).toBe("@IndiGo6E");
+    expect(request.url.searchParams.get("queryType")).toBe("Latest");
+    expect(request.url.searchParams.has("cursor")).toBe(false);
+    expect(server.requests[1].url.searchParams.get("cursor")).toBe("3");
+
+    expect(first.tweets).toHaveLength(3);
+    expect(first.nextCursor).toBe("3");
+    expect(second.tweets.map((tweet) => (tweet as { id: string }).id)).toEqual(["7", "6", "5"]);
+  });
+
+  it("reports no next page on the last page", async () => {
+    const server = fakeSearchServer(1, 2);
+    const client = createTwitterApiSearchClient({ apiKey: "key-1", fetch: server.fetch });
+    expect((await client.searchTweets({ query: "q" })).nextCursor).toBeNull();
+  });
+
+  it("throws with the status when the search fails", async () => {
+    const client = createTwitterApiSearchClient({
+      apiKey: "key-1",
+      fetch: (async () => new Response("rate limited", { status: 429 })) as typeof fetch,
+    });
+    await expect(client.searchTweets({ query: "q" })).rejects.toThrow("Tweet search failed: 429 - rate limited");
+  });
+});
+
+describe("backfillRule", () => {
+  it("pages back to lastSeenTweetId and moves the cursor to the newest tweet", async () => {
+    const server = fakeSearchServer(101, 110);
+    const client = createTwitterApiSearchClient({ apiKey: "key-1", fetch: server.fetch });
+    const { ctx, stored, scheduledCount } = fakeActionCtx();
+
+    const progress = await backfillRule(ctx, cursorWith({ lastSeenTweetId: "104" }), client);
+
+    expect(server.requests[0].url.searchParams.get("query")).toBe("@IndiGo6E since_id:104");
+    expect(stored).toEqual(["110", "109", "108", "107", "106", "105"]);
+    expect(scheduledCount()).toBe(2);
+    expect(progress).toEqual({ insertedCount: 6, pages: 2, lastSeenTweetId: "110" });
+  });
+
+  it("stops at lastSeenTweetId even when the search returns older tweets", async () => {
+    const server = fakeSearchServer(101, 110);
+    // A search that ignores since_id still ends the run at the cursor
+    const client = createTwitterApiSearchClient({
+      apiKey: "key-1",
+      fetch: ((input: string) => {
+        const url = new URL(input);
+        url.searchParams.set("query", "@IndiGo6E");
+        return server.fetch(url.toString());
+      }) as typeof fetch,
+    });
+    const { ctx, stored } = fakeActionCtx();
+
+    const progress = await backfillRule(ctx, cursorWith({ lastSeenTweetId: "106" }), client);
+
+    expect(stored).toEqual(["110", "109", "108", "107"]);
+    expect(progress).toMatchObject({ pages: 2, lastSeenTweetId: "110" });
+    expect(progress.gapMaxId).toBeUndefined();
+  });
+
+  it("leaves a gap larger than one run open and resumes it below gapMaxId", async () => {
+    // 40 new tweets above the cursor: more than 10 pages of 3
+    const server = fakeSearchServer(100, 140);
+    const client = createTwitterApiSearchClient({ apiKey: "key-1", fetch: server.fetch });
+    const { ctx, stored } = fakeActionCtx();
+
+    const first = await backfillRule(ctx, cursorWith({ lastSeenTweetId: "100" }), client);
+    expect(first).toMatchObject({ pages: 10, insertedCount: 30, lastSeenTweetId: "100", gapMaxId: "111", gapNewestId: "140" });
+
+    const second = await backfillRule(ctx, cursorWith({ lastSeenTweetId: "100", ...first }), client);
+    expect(server.requests.at(-1)!.url.searchParams.get("query")).toBe("@IndiGo6E since_id:100 max_id:111");
+    expect(second).toEqual({ insertedCount: 10, pages: 4, lastSeenTweetId: "140" });
+
+    // Every tweet above the cursor was stored exactly once, newest first
+    expect(stored).toEqual(Array.from({ length: 40 }, (_, index) => String(140 - index)));
+  });
+
+  it("looks back from since_time on a rule's first run", async () => {
+    const server = fakeSearchServer(1, 2);
+    const client = createTwitterApiSearchClient({ apiKey: "key-1", fetch: server.fetch });
+    const { ctx, stored } = fakeActionCtx();
+
+    const progress = await backfillRule(ctx, cursorWith({ gapSinceTime: 1760860800000 }), client);
+
+    expect(server.requests[0].url.searchParams.get("query")).toBe("@IndiGo6E since_time:1760860800");
+    expect(stored).toEqual(["2", "1"]);
+    expect(progress.lastSeenTweetId).toBe("2");
+  });
+});
@@ -0,0 +1,322 @@
+import { v } from "convex/values";
+import { ActionCtx, internalAction, internalMutation, internalQuery, mutation, MutationCtx, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { normalizeTwitterApiIoTweets } from "./adapters/twitterApiIo";
+
+const DEFAULT_API_BASE_URL = "https://api.twitterapi.io";
+// Pages fetched per rule per run; see backfillRule for how a larger gap is finished
+const MAX_PAGES_PER_RUN = 10;
+// How far back the first run for a rule looks when there is no cursor yet
+const INITIAL_LOOKBACK_MS = 60 * 60 * 1000;
+
+export type SearchPage = {
+  tweets: unknown[];
+  nextCursor: string | null;
+};
+
+// Search endpoint used for backfill; swap it out to test against a fake server
+export interface SearchClient {
+  searchTweets(args: { query: string; cursor?: string }): Promise<SearchPage>;
+}
+
+// Search client for twitterapi.io's advanced search endpoint
+export function createTwitterApiSearchClient(options: {
+  apiKey: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}): SearchClient {
+  const baseUrl = (options.baseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+  const fetchFn = options.fetch ?? fetch;
+
+  return {
+    async searchTweets({ query, cursor }) {
+      const url = new URL(`${baseUrl}/twitter/tweet/advanced_search`);
+      url.searchParams.set("query", query);
+      url.searchParams.set("queryType", "Latest");
+      if (cursor) {
+        url.searchParams.set("cursor", cursor);
+      }
+
+      const response = await fetchFn(url.toString(), {
+        headers: { "X-API-Key": options.apiKey },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Tweet search failed: ${response.status} - ${errorText}`);
+      }
+
+      const result = await response.json();
+      return {
+        tweets: Array.isArray(result.tweets) ? result.tweets : [],
+        nextCursor: result.has_next_page && result.next_cursor ? result.next_cursor : null,
+      };
+    },
+  };
+}
+
+// Compare snowflake IDs without losing precision
+export function compareTweetIds(a: string, b: string) {
+  if (a.length !== b.length) {
+    return a.length - b.length;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Narrow the rule's query to tweets newer than the cursor, and below what an unfinished
+// gap has already fetched. The lower bound stays fixed until the gap is closed.
+function buildBackfillQuery(cursor: Doc<"backfillCursors">, sinceTime: number) {
+  const lowerBound = cursor.lastSeenTweetId
+    ? `since_id:${cursor.lastSeenTweetId}`
+    : `since_time:${Math.floor(sinceTime / 1000)}`;
+  const upperBound = cursor.gapMaxId ? ` max_id:${cursor.gapMaxId}` : "";
+  return `${cursor.query} ${lowerBound}${upperBound}`;
+}
+
+export type BackfillProgress = {
+  insertedCount: number;
+  pages: number;
+  lastSeenTweetId?: string;
+  // Set while a gap is still being paged: fetch at or below gapMaxId next run, then move
+  // lastSeenTweetId to gapNewestId once the bottom of the gap is reached
+  gapMaxId?: string;
+  gapNewestId?: string;
+  gapSinceTime?: number;
+};
+
+// Page through search results for one rule and feed them into storeTweets. A gap larger than
+// MAX_PAGES_PER_RUN is closed newest-first over later runs; lastSeenTweetId only moves once
+// every page down to it has been fetched.
+export async function backfillRule(
+  ctx: ActionCtx,
+  cursor: Doc<"backfillCursors">,
+  client: SearchClient
+): Promise<BackfillProgress> {
+  const now = Date.now();
+  const gapSinceTime = cursor.gapSinceTime ?? now - INITIAL_LOOKBACK_MS;
+  const query = buildBackfillQuery(cursor, gapSinceTime);
+  let gapNewestId = cursor.gapNewestId;
+  let oldestFetchedId = cursor.gapMaxId;
+  let pageCursor: string | undefined;
+  let insertedCount = 0;
+  let pages = 0;
+  let reachedBottom = false;
+
+  while (pages < MAX_PAGES_PER_RUN) {
+    const page = await client.searchTweets({ query, cursor: pageCursor });
+    pages++;
+
+    // Skip individual tweets that cannot be normalized rather than stalling the rule
+    const tweets = page.tweets.flatMap((item) => {
+      const normalized = normalizeTwitterApiIoTweets([item]);
+      if (!normalized.ok) {
+        console.warn(`Skipping backfilled tweet for rule ${cursor.ruleId}: ${normalized.detail}`);
+        return [];
+      }
+      return normalized.tweets;
+    });
+
+    // Results are newest first; anything at or below the cursor was already seen, and
+    // max_id is inclusive, so the tweet the gap stopped at comes back once more
+    const fresh = tweets.filter(
+      (tweet) =>
+        (!cursor.lastSeenTweetId || compareTweetIds(tweet.id, cursor.lastSeenTweetId) > 0) &&
+        (!cursor.gapMaxId || compareTweetIds(tweet.id, cursor.gapMaxId) < 0)
+    );
+
+    if (fresh.length > 0) {
+      const result = await ctx.runMutation(internal.twitter.storeTweets, {
+        payload: {
+          event_type: "backfill",
+          rule_id: cursor.ruleId,
+          rule_tag: cursor.ruleTag,
+          tweets: fresh,
+          timestamp: now,
+        },
+      });
+
+      if (result.insertedTweetIds.length > 0) {
+        await ctx.scheduler.runAfter(0, internal.routing.processBatchRouting, {
+          tweetIds: result.insertedTweetIds,
+        });
+      }
+      insertedCount += result.insertedCount;
+
+      for (const tweet of fresh) {
+        if (!gapNewestId || compareTweetIds(tweet.id, gapNewestId) > 0) {
+          gapNewestId = tweet.id;
+        }
+        if (!oldestFetchedId || compareTweetIds(tweet.id, oldestFetchedId) < 0) {
+          oldestFetchedId = tweet.id;
+        }
+      }
+    }
+
+    const reachedSeen = tweets.some(
+      (tweet) => cursor.lastSeenTweetId && compareTweetIds(tweet.id, cursor.lastSeenTweetId) <= 0
+    );
+    if (!page.nextCursor || reachedSeen) {
+      reachedBottom = true;
+      break;
+    }
+    pageCursor = page.nextCursor;
+  }
+
+  if (reachedBottom) {
+    return { insertedCount, pages, lastSeenTweetId: gapNewestId ?? cursor.lastSeenTweetId };
+  }
+  return {
+    insertedCount,
+    pages,
+    lastSeenTweetId: cursor.lastSeenTweetId,
+    gapMaxId: oldestFetchedId,
+    gapNewestId,
+    gapSinceTime: cursor.lastSeenTweetId ? undefined : gapSinceTime,
+  };
+}
+
+// Internal query to list rules enabled for backfill
+export const getEnabledBackfillCursors = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db
+      .query("backfillCursors")
+      .withIndex("by_enabled", (q) => q.eq("isEnabled", true))
+      .collect();
+  },
+});
+
+// Internal mutation to record the outcome of a backfill run. A failed run leaves the
+// position and any unfinished gap as they were.
+export const updateBackfillCursor = internalMutation({
+  args: {
+    cursorId: v.id("backfillCursors"),
+    progress: v.optional(
+      v.object({
+        lastSeenTweetId: v.optional(v.string()),
+        gapMaxId: v.optional(v.string()),
+        gapNewestId: v.optional(v.string()),
+        gapSinceTime: v.optional(v.number()),
+      })
+    ),
+    insertedCount: v.number(),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const updates: Record<string, unknown> = {
+      lastRunAt: Date.now(),
+      lastInsertedCount: args.insertedCount,
+      lastError: args.error,
+    };
+
+    if (args.progress) {
+      if (args.progress.lastSeenTweetId) {
+        updates.lastSeenTweetId = args.progress.lastSeenTweetId;
+      }
+      updates.gapMaxId = args.progress.gapMaxId;
+      updates.gapNewestId = args.progress.gapNewestId;
+      updates.gapSinceTime = args.progress.gapSinceTime;
+    }
+
+    await ctx.db.patch(args.cursorId, updates);
+  },
+});
+
+// Internal action to backfill every enabled rule (run from crons.ts)
+export const runBackfill = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    // Backfill is optional: without a key the cron does nothing rather than failing every tick
+    const apiKey = process.env.TWITTER_API_KEY;
+    if (!apiKey) {
+      console.log("Skipping backfill: TWITTER_API_KEY environment variable is not set");
+      return [];
+    }
+
+    const client = createTwitterApiSearchClient({
+      apiKey,
+      baseUrl: process.env.TWITTER_API_BASE_URL,
+    });
+    const cursors: Doc<"backfillCursors">[] = await ctx.runQuery(
+      internal.backfill.getEnabledBackfillCursors,
+      {}
+    );
+
+    const results = [];
+    for (const cursor of cursors) {
+      try {
+        const result = await backfillRule(ctx, cursor, client);
+        await ctx.runMutation(internal.backfill.updateBackfillCursor, {
+          cursorId: cursor._id,
+          progress: {
+            lastSeenTweetId: result.lastSeenTweetId,
+            gapMaxId: result.gapMaxId,
+            gapNewestId: result.gapNewestId,
+            gapSinceTime: result.gapSinceTime,
+          },
+          insertedCount: result.insertedCount,
+        });
+        results.push({ ruleId: cursor.ruleId, success: true, inserted: result.insertedCount });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error(`Backfill failed for rule ${cursor.ruleId}:`, errorMessage);
+        await ctx.runMutation(internal.backfill.updateBackfillCursor, {
+          cursorId: cursor._id,
+          insertedCount: 0,
+          error: errorMessage,
+        });
+        results.push({ ruleId: cursor.ruleId, success: false, error: errorMessage });
+      }
+    }
+
+    return results;
+  },
+});
+
+export type BackfillRule = {
+  ruleId: string;
+  ruleTag: string;
+  query: string;
+  isEnabled: boolean;
+};
+
+// Create or update the cursor for a rule, keeping its position if it already exists
+export async function upsertBackfillCursor(ctx: MutationCtx, rule: BackfillRule) {
+  const existing = await ctx.db
+    .query("backfillCursors")
+    .withIndex("by_rule_id", (q) => q.eq("ruleId", rule.ruleId))
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      ruleTag: rule.ruleTag,
+      query: rule.query,
+      isEnabled: rule.isEnabled,
+    });
+    return existing._id;
+  }
+
+  return await ctx.db.insert("backfillCursors", rule);
+}
+
+// Mutation to register or update the search query backfilled for a rule
+export const upsertBackfillRule = mutation({
+  args: {
+    ruleId: v.string(),
+    ruleTag: v.string(),
+    query: v.string(),
+    isEnabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    return await upsertBackfillCursor(ctx, args);
+  },
+});
+
+// Query to list backfill cursors and their last run
+export const listBackfillCursors = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("backfillCursors").collect();
+  },
+});
@@ -0,0 +1,139 @@
+import { v } from "convex/values";
+import { MutationCtx, query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+
+// Parse the upstream created_at string, falling back to when we stored the tweet
+export function tweetTimestamp(tweet: Doc<"tweets">) {
+  const parsed = Date.parse(tweet.tweetCreatedAt);
+  return Number.isNaN(parsed) ? tweet._creationTime : parsed;
+}
+
+// Work out which thread a tweet belongs to. Upstream conversationId wins; otherwise
+// follow the reply to a stored tweet or to one of our own sent replies.
+async function resolveRootTweetId(ctx: MutationCtx, tweet: Doc<"tweets">) {
+  if (tweet.conversationId) {
+    return tweet.conversationId;
+  }
+
+  if (tweet.inReplyToId) {
+    const parent = await ctx.db
+      .query("tweets")
+      .withIndex("by_tweet_id", (q) => q.eq("tweetId", tweet.inReplyToId!))
+      .first();
+    if (parent) {
+      if (parent.conversationId) {
+        return parent.conversationId;
+      }
+      const parentThread = parent.threadId ? await ctx.db.get(parent.threadId) : null;
+      return parentThread?.rootTweetId ?? parent.tweetId;
+    }
+
+    const ourReply = await ctx.db
+      .query("tweetResponses")
+      .withIndex("by_response_tweet", (q) => q.eq("responseTweetId", tweet.inReplyToId!))
+      .first();
+    if (ourReply?.threadId) {
+      const thread = await ctx.db.get(ourReply.threadId);
+      if (thread) {
+        return thread.rootTweetId;
+      }
+    }
+  }
+
+  return tweet.tweetId;
+}
+
+// Attach a stored tweet to its passenger conversation, creating the conversation if needed
+export async function attachToConversation(ctx: MutationCtx, tweetDocId: Id<"tweets">) {
+  const tweet = await ctx.db.get(tweetDocId);
+  if (!tweet) {
+    return null;
+  }
+
+  const rootTweetId = await resolveRootTweetId(ctx, tweet);
+  const at = tweetTimestamp(tweet);
+
+  const existing = await ctx.db
+    .query("conversations")
+    .withIndex("by_root_and_author", (q) =>
+      q.eq("rootTweetId", rootTweetId).eq("authorId", tweet.authorId)
+    )
+    .first();
+
+  let threadId: Id<"conversations">;
+  if (existing) {
+    threadId = existing._id;
+    await ctx.db.patch(threadId, {
+      tweetCount: existing.tweetCount + 1,
+      firstTweetAt: Math.min(existing.firstTweetAt, at),
+      lastActivityAt: Math.max(existing.lastActivityAt, at),
+    });
+  } else {
+    threadId = await ctx.db.insert("conversations", {
+      rootTweetId,
+      authorId: tweet.authorId,
+      authorUsername: tweet.authorUsername,
+      authorName: tweet.authorName,
+      tweetCount: 1,
+      firstTweetAt: at,
+      lastActivityAt: at,
+      routingStatus: "pending",
+    });
+  }
+
+  await ctx.db.patch(tweetDocId, { threadId });
+  return threadId;
+}
+
+// Look up the conversation an existing tweet belongs to, by upstream tweet ID
+export async function getThreadIdForTweet(ctx: MutationCtx, tweetId: string) {
+  const tweet = await ctx.db
+    .query("tweets")
+    .withIndex("by_tweet_id", (q) => q.eq("tweetId", tweetId))
+    .first();
+  return tweet?.threadId;
+}
+
+// Query to get a conversation as a chronological thread of tweets and our replies
+export const getConversationThread = query({
+  args: {
+    threadId: v.id("conversations"),
+  },
+  handler: async (ctx, { threadId }) => {
+    const conversation = await ctx.db.get(threadId);
+    if (!conversation) {
+      return null;
+    }
+
+    const tweets = await ctx.db
+      .query("tweets")
+      .withIndex("by_thread", (q) => q.eq("threadId", threadId))
+      .collect();
+    const responses = await ctx.db
+      .query("tweetResponses")
+      .withIndex("by_thread", (q) => q.eq("threadId", threadId))
+      .collect();
+
+    const items = [
+      ...tweets.map((tweet) => ({
+        type: "tweet" as const,
+        id: tweet._id as string,
+        text: tweet.text,
+        author: tweet.authorUsername,
+        status: tweet.routingStatus ?? "pending",
+        at: tweetTimestamp(tweet),
+      })),
+      ...responses.map((response) => ({
+        type: "response" as const,
+        id: response._id as string,
+        text: response.responseText,
+        author: null,
+        status: response.status,
+        at: response.sentAt ?? response.createdAt,
+      })),
+    ];
+    items.sort((a, b) => a.at - b.at);
+
+    return { conversation, items };
+  },
+});
@@ -0,0 +1,158 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { tokenize } from "./intentClassifier";
+import { rerouteTweet } from "./rerouting";
+import { getActor } from "./ruleVersions";
+
+// A term must turn up in this many corrections before it is suggested
+const MIN_SUGGESTION_SUPPORT = 2;
+const MAX_SUGGESTIONS_PER_RULE = 5;
+// Corrections the suggestion report looks at, newest first
+const SUGGESTION_WINDOW = 500;
+
+// Mutation for an agent to relabel a misrouted tweet. The correction is always recorded;
+// the tweet is re-routed unless a reply already went out.
+export const relabelTweet = mutation({
+  args: {
+    tweetId: v.id("tweets"),
+    ruleId: v.optional(v.id("routingRules")), // omit when the tweet should not have been routed
+    intent: v.optional(v.string()), // defaults to the rule's intent
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const tweet = await ctx.db.get(args.tweetId);
+    if (!tweet) {
+      throw new Error("Tweet not found");
+    }
+    const rule = args.ruleId ? await ctx.db.get(args.ruleId) : null;
+    if (args.ruleId && (!rule || rule.deletedAt !== undefined)) {
+      throw new Error("Routing rule not found");
+    }
+
+    const correctedIntent = args.intent?.trim().toLowerCase() || rule?.intent;
+    // Relabelling an escalated tweet to its top rule settles the conflict, so it is allowed
+    if (tweet.matchedRuleId === rule?._id && correctedIntent === tweet.intent && !tweet.escalationReason) {
+      throw new Error(rule ? `Tweet is already routed to ${rule.name}` : "Tweet is already unrouted");
+    }
+
+    const reason = args.reason?.trim() || undefined;
+    const correctedBy = await getActor(ctx);
+    const previousRule = tweet.routingTrace?.rules.find((entry) => entry.ruleId === tweet.matchedRuleId);
+
+    // The agent's label replaces the model's prediction, with full confidence
+    const intentFields = {
+      intent: correctedIntent,
+      intentConfidence: correctedIntent ? 1 : undefined,
+      intentModelId: undefined,
+    };
+    await ctx.db.patch(tweet._id, intentFields);
+
+    const outcome = await rerouteTweet(
+      ctx,
+      { ...tweet, ...intentFields },
+      null,
+      { responsesCreated: 0, responsesReplaced: 0, responsesRemoved: 0 },
+      {
+        rule,
+        outcome: `Relabelled ${rule ? `to ${rule.name}` : "as not routable"} by ${correctedBy ?? "an agent"}${
+          reason ? `: ${reason}` : ""
+        }`,
+      }
+    );
+
+    const correctionId = await ctx.db.insert("routingCorrections", {
+      tweetId: tweet._id,
+      text: tweet.text,
+      previousRuleId: tweet.matchedRuleId,
+      previousIntent: tweet.intent,
+      previousHits: [...new Set((previousRule?.hits ?? []).map((hit) => hit.term))],
+      correctedRuleId: rule?._id,
+      correctedIntent,
+      reason,
+      correctedBy,
+      rerouted: outcome !== "responded",
+      createdAt: Date.now(),
+    });
+    return { correctionId, rerouted: outcome !== "responded" };
+  },
+});
+
+// Query to list a tweet's corrections, newest first
+export const getTweetCorrections = query({
+  args: {
+    tweetId: v.id("tweets"),
+  },
+  handler: async (ctx, { tweetId }) => {
+    const corrections = await ctx.db
+      .query("routingCorrections")
+      .withIndex("by_tweet", (q) => q.eq("tweetId", tweetId))
+      .order("desc")
+      .collect();
+    return await Promise.all(
+      corrections.map(async (correction) => ({
+        ...correction,
+        previousRuleName: correction.previousRuleId ? (await ctx.db.get(correction.previousRuleId))?.name : undefined,
+        correctedRuleName: correction.correctedRuleId
+          ? (await ctx.db.get(correction.correctedRuleId))?.name
+          : undefined,
+      }))
+    );
+  },
+});
+
+function topTerms(counts: Map<string, number>) {
+  return [...counts.entries()]
+    .filter(([, count]) => count >= MIN_SUGGESTION_SUPPORT)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_SUGGESTIONS_PER_RULE)
+    .map(([term, count]) => ({ term, count }));
+}
+
+// Query to suggest keyword changes per rule from recent corrections: words common to tweets
+// that should have reached the rule, and the rule's terms behind tweets it should not have taken
+export const getKeywordSuggestions = query({
+  args: {},
+  handler: async (ctx) => {
+    const corrections = await ctx.db.query("routingCorrections").order("desc").take(SUGGESTION_WINDOW);
+    const rules = (await ctx.db.query("routingRules").collect()).filter((rule) => rule.deletedAt === undefined);
+
+    return rules
+      .map((rule) => {
+        const missed = corrections.filter(
+          (correction) => correction.correctedRuleId === rule._id && correction.previousRuleId !== rule._id
+        );
+        const wronglyTaken = corrections.filter(
+          (correction) => correction.previousRuleId === rule._id && correction.correctedRuleId !== rule._id
+        );
+
+        // Count each word once per tweet, skipping words the rule already has
+        const existing = new Set(rule.keywords.flatMap((keyword) => tokenize(keyword)));
+        const additions = new Map<string, number>();
+        for (const correction of missed) {
+          for (const term of new Set(tokenize(correction.text))) {
+            if (!existing.has(term)) {
+              additions.set(term, (additions.get(term) ?? 0) + 1);
+            }
+          }
+        }
+
+        const removals = new Map<string, number>();
+        for (const correction of wronglyTaken) {
+          for (const term of correction.previousHits) {
+            removals.set(term, (removals.get(term) ?? 0) + 1);
+          }
+        }
+
+        return {
+          ruleId: rule._id,
+          ruleName: rule.name,
+          missedCount: missed.length,
+          wronglyTakenCount: wronglyTaken.length,
+          add: topTerms(additions),
+          remove: topTerms(removals),
+        };
+      })
+      .filter((report) => report.missedCount > 0 || report.wronglyTakenCount > 0)
+      .sort((a, b) => b.missedCount + b.wronglyTakenCount - (a.missedCount + a.wronglyTakenCount));
+  },
+});
@@ -0,0 +1,12 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Pull tweets the webhook may have missed
+crons.interval("backfill missed tweets", { minutes: 5 }, internal.backfill.runBackfill, {});
+
+// Restart draining of throttled deliveries if the drain chain stopped
+crons.interval("resume stalled ingest drain", { minutes: 1 }, internal.ingestQueue.resumeStalledDrain, {});
+
+export default crons;
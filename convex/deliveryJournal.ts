@@ -0,0 +1,235 @@
+import { Infer, v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { internalAction, internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { DEFAULT_PROVIDER } from "./adapters/registry";
+import { ingestDelivery } from "./ingestQueue";
+import { WebhookPayload } from "./twitter";
+import { deliveryHeadersValidator, parseWebhookPayload, redactHeaders } from "./webhookPayload";
+
+// Header a provider can use to supply its own delivery ID
+export const DELIVERY_ID_HEADER = "x-webhook-delivery-id";
+
+const DEFAULT_REPLAY_BATCH_SIZE = 25;
+
+// Longest body kept inline on a journal entry. Documents are capped at 1 MiB and a UTF-16
+// code unit takes at most 3 bytes, so longer bodies are split into deliveryJournalChunks.
+const MAX_INLINE_BODY_LENGTH = 200_000;
+
+export const journalEntryValidator = v.object({
+  deliveryId: v.string(),
+  provider: v.optional(v.string()),
+  rawBody: v.string(),
+  headers: deliveryHeadersValidator,
+  eventType: v.string(),
+  ruleId: v.string(),
+  ruleTag: v.string(),
+  timestamp: v.number(),
+  tweetCount: v.number(),
+});
+
+type JournalEntry = Infer<typeof journalEntryValidator>;
+
+// Build a journal entry from a parsed delivery and its raw body
+export function journalEntryFromPayload(
+  deliveryId: string,
+  provider: string,
+  rawBody: string,
+  headers: JournalEntry["headers"],
+  payload: WebhookPayload
+): JournalEntry {
+  return {
+    deliveryId,
+    provider,
+    rawBody,
+    headers,
+    eventType: payload.event_type,
+    ruleId: payload.rule_id,
+    ruleTag: payload.rule_tag,
+    timestamp: payload.timestamp,
+    tweetCount: payload.tweets.length,
+  };
+}
+
+// Split a body into pieces of at most `size` code units without breaking a surrogate pair
+function splitBody(body: string, size: number) {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < body.length) {
+    let end = Math.min(start + size, body.length);
+    const last = body.charCodeAt(end - 1);
+    if (end < body.length && last >= 0xd800 && last <= 0xdbff) {
+      end--;
+    }
+    chunks.push(body.slice(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+// Append an accepted delivery to the journal; entries are never modified afterwards.
+// Bodies too large for one document are stored in order as chunks.
+export async function appendJournalEntry(
+  ctx: MutationCtx,
+  entry: JournalEntry
+) {
+  const existing = await ctx.db
+    .query("deliveryJournal")
+    .withIndex("by_delivery_id", (q) => q.eq("deliveryId", entry.deliveryId))
+    .first();
+
+  // Provider retries reuse the delivery ID, keep the first copy
+  if (existing) {
+    return existing._id;
+  }
+
+  const headers = redactHeaders(entry.headers);
+  if (entry.rawBody.length <= MAX_INLINE_BODY_LENGTH) {
+    return await ctx.db.insert("deliveryJournal", {
+      ...entry,
+      headers,
+      receivedAt: Date.now(),
+    });
+  }
+
+  const chunks = splitBody(entry.rawBody, MAX_INLINE_BODY_LENGTH);
+  const journalId = await ctx.db.insert("deliveryJournal", {
+    ...entry,
+    headers,
+    rawBody: "",
+    rawBodyChunkCount: chunks.length,
+    receivedAt: Date.now(),
+  });
+  for (const [index, text] of chunks.entries()) {
+    await ctx.db.insert("deliveryJournalChunks", { journalId, index, text });
+  }
+  return journalId;
+}
+
+// The exact body of a journal entry, reassembled from its chunks when it was split
+export async function loadJournalBody(ctx: QueryCtx, entry: Doc<"deliveryJournal">) {
+  if (entry.rawBodyChunkCount === undefined) {
+    return entry.rawBody;
+  }
+  const chunks = await ctx.db
+    .query("deliveryJournalChunks")
+    .withIndex("by_journal", (q) => q.eq("journalId", entry._id))
+    .collect();
+  if (chunks.length !== entry.rawBodyChunkCount) {
+    throw new Error(`Journal entry ${entry.deliveryId} has ${chunks.length} of ${entry.rawBodyChunkCount} body chunks`);
+  }
+  return chunks.map((chunk) => chunk.text).join("");
+}
+
+// Internal mutation to journal a delivery accepted by the webhook
+export const journalDelivery = internalMutation({
+  args: {
+    entry: journalEntryValidator,
+  },
+  handler: async (ctx, { entry }) => {
+    return await appendJournalEntry(ctx, entry);
+  },
+});
+
+// Internal query to page through journal entries in a receivedAt range
+export const getJournalPage = internalQuery({
+  args: {
+    fromReceivedAt: v.optional(v.number()),
+    toReceivedAt: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { fromReceivedAt, toReceivedAt, paginationOpts }) => {
+    return await ctx.db
+      .query("deliveryJournal")
+      .withIndex("by_received_at", (q) => {
+        const lower = fromReceivedAt !== undefined ? q.gte("receivedAt", fromReceivedAt) : q;
+        return toReceivedAt !== undefined ? lower.lte("receivedAt", toReceivedAt) : lower;
+      })
+      .paginate(paginationOpts);
+  },
+});
+
+// Internal query to load the full body of a journal entry stored in chunks
+export const getJournalBody = internalQuery({
+  args: {
+    journalId: v.id("deliveryJournal"),
+  },
+  handler: async (ctx, { journalId }) => {
+    const entry = await ctx.db.get(journalId);
+    if (!entry) {
+      throw new Error("Journal entry not found");
+    }
+    return await loadJournalBody(ctx, entry);
+  },
+});
+
+// Internal action to re-run journal entries through normalization, dedup and routing.
+// With `renormalize`, tweets that already exist are rebuilt from the journaled body.
+// Tweets over the source's rate are deferred to the ingest queue and counted as such.
+export const replayJournal = internalAction({
+  args: {
+    fromReceivedAt: v.optional(v.number()),
+    toReceivedAt: v.optional(v.number()),
+    renormalize: v.optional(v.boolean()),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const summary = { entries: 0, inserted: 0, updated: 0, skipped: 0, renormalized: 0, deferred: 0, failed: 0 };
+    let cursor: string | null = null;
+    let isDone = false;
+
+    while (!isDone) {
+      const page: {
+        page: Array<{
+          _id: Id<"deliveryJournal">;
+          deliveryId: string;
+          provider?: string;
+          rawBody: string;
+          rawBodyChunkCount?: number;
+          receivedAt: number;
+        }>;
+        isDone: boolean;
+        continueCursor: string;
+      } = await ctx.runQuery(internal.deliveryJournal.getJournalPage, {
+        fromReceivedAt: args.fromReceivedAt,
+        toReceivedAt: args.toReceivedAt,
+        paginationOpts: { numItems: args.batchSize ?? DEFAULT_REPLAY_BATCH_SIZE, cursor },
+      });
+
+      for (const entry of page.page) {
+        summary.entries++;
+
+        const rawBody: string =
+          entry.rawBodyChunkCount === undefined
+            ? entry.rawBody
+            : await ctx.runQuery(internal.deliveryJournal.getJournalBody, { journalId: entry._id });
+        const parsed = parseWebhookPayload(rawBody, entry.provider, entry.receivedAt);
+        if (!parsed.ok) {
+          console.warn(`Journal entry ${entry.deliveryId} no longer parses: ${parsed.reason}`);
+          summary.failed++;
+          continue;
+        }
+
+        // Replays are rate limited and chunked like live deliveries
+        const result = await ingestDelivery(ctx, {
+          deliveryId: entry.deliveryId,
+          provider: entry.provider ?? DEFAULT_PROVIDER,
+          payload: parsed.payload,
+          renormalize: args.renormalize,
+        });
+
+        summary.inserted += result.inserted;
+        summary.updated += result.updated;
+        summary.skipped += result.skipped;
+        summary.renormalized += result.renormalized;
+        summary.deferred += result.deferred;
+      }
+
+      cursor = page.continueCursor;
+      isDone = page.isDone;
+    }
+
+    return summary;
+  },
+});
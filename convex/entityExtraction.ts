@@ -0,0 +1,254 @@
+// Structured entities found in tweet text: booking and baggage references, flights,
+// airports, dates, and contact details (PII, stored masked).
+
+export type EntityType = "pnr" | "flight" | "pir" | "airport" | "date" | "phone" | "email";
+
+export const ENTITY_TYPES: EntityType[] = ["pnr", "flight", "pir", "airport", "date", "phone", "email"];
+
+export type ExtractedEntity = {
+  type: EntityType;
+  value: string; // normalized, e.g. "6E 2134", "2025-01-12"; masked for phone and email
+  text: string; // as written in the tweet (masked for phone and email)
+  index: number;
+  confidence: number; // 0..1
+};
+
+// Airports IndiGo serves that passengers commonly mention; three capitals alone are too noisy
+const IATA_CODES = new Set([
+  "AGR", "AMD", "ATQ", "BBI", "BDQ", "BHO", "BLR", "BOM", "CCJ", "CCU", "CJB", "COK", "DED", "DEL", "DIB",
+  "GAU", "GAY", "GOI", "GOX", "GWL", "HBX", "HYD", "IDR", "IMF", "IXA", "IXB", "IXC", "IXE", "IXJ", "IXM",
+  "IXR", "IXU", "IXZ", "JAI", "JDH", "JLR", "KNU", "LKO", "MAA", "NAG", "PAT", "PNQ", "RAJ", "RPR", "SLV",
+  "STV", "SXR", "TIR", "TRV", "TRZ", "UDR", "VGA", "VNS", "VTZ",
+  "AUH", "BAH", "BKK", "CMB", "DAC", "DMM", "DOH", "DXB", "HKT", "IST", "JED", "KTM", "KUL", "KWI", "MCT",
+  "MLE", "RUH", "SHJ", "SIN", "LHR", "AMS", "MAN", "CDG", "TAS", "ALA",
+]);
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function maskPhone(digits: string) {
+  return `${"*".repeat(Math.max(digits.length - 4, 0))}${digits.slice(-4)}`;
+}
+
+function maskEmail(email: string) {
+  const [user, domain] = email.split("@");
+  return `${user[0]}***@${domain}`;
+}
+
+// A match before overlap resolution; `end` is the offset in the original text, which
+// masked values no longer reveal, and `value` is null when the match isn't a real date
+type Candidate = Omit<ExtractedEntity, "value"> & { value: string | null; end?: number };
+
+function findAll(pattern: RegExp, text: string, build: (match: RegExpMatchArray) => Candidate | null) {
+  const found: Candidate[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const candidate = build(match);
+    if (candidate) found.push(candidate);
+  }
+  return found;
+}
+
+const MONTH_PATTERN =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+function extractPnrs(text: string) {
+  const labelled = findAll(/\bPNR\s*(?:is|no\.?|number|#|:|-)?\s*:?\s*([A-Z0-9]{6})\b/gi, text, (match) => {
+    // "PNR please" is not a PNR: all-letter codes must be written in capitals
+    if (!/\d/.test(match[1]) && match[1] !== match[1].toUpperCase()) {
+      return null;
+    }
+    return {
+      type: "pnr",
+      value: match[1].toUpperCase(),
+      text: match[1],
+      index: (match.index ?? 0) + match[0].length - match[1].length,
+      confidence: 0.95,
+    };
+  });
+  // Unlabelled: upper case, mixing letters and digits, and not a 6E flight number
+  const bare = findAll(/\b(?!6E\d)(?=[A-Z0-9]*\d)(?=[A-Z0-9]*[A-Z])[A-Z0-9]{6}\b/g, text, (match) => ({
+    type: "pnr",
+    value: match[0],
+    text: match[0],
+    index: match.index ?? 0,
+    confidence: 0.6,
+  }));
+  return [...labelled, ...bare];
+}
+
+function extractFlights(text: string) {
+  const coded = findAll(/\b6E[\s-]?(\d{1,4})\b/gi, text, (match) => ({
+    type: "flight",
+    value: `6E ${match[1]}`,
+    text: match[0],
+    index: match.index ?? 0,
+    confidence: match[0].startsWith("6E") ? 0.95 : 0.85,
+  }));
+  const spoken = findAll(/\bflight\s*(?:no\.?|number|#)?\s*(\d{3,4})\b/gi, text, (match) => ({
+    type: "flight",
+    value: `6E ${match[1]}`,
+    text: match[0],
+    index: match.index ?? 0,
+    confidence: 0.5,
+  }));
+  return [...coded, ...spoken];
+}
+
+// Property Irregularity Reports: station code, airline/agent letters, then five digits (e.g. DELBMS12345)
+function extractPirs(text: string) {
+  return findAll(/\b(PIR|file\s*(?:ref(?:erence)?|no\.?|number))?[\s:#-]*\b([A-Z]{3}[A-Z0-9]{2,3}\d{5})\b/gi, text, (match) => {
+    const reference = match[2].toUpperCase();
+    if (!IATA_CODES.has(reference.slice(0, 3)) && !match[1]) {
+      return null;
+    }
+    return {
+      type: "pir",
+      value: reference,
+      text: match[2],
+      index: (match.index ?? 0) + match[0].length - match[2].length,
+      confidence: match[1] ? 0.95 : 0.75,
+    };
+  });
+}
+
+function extractAirports(text: string) {
+  const routes: Candidate[] = [];
+  for (const match of text.matchAll(/\b([A-Z]{3})\s*(?:-|–|to|→|>)\s*([A-Z]{3})\b/g)) {
+    const [whole, origin, destination] = match;
+    if (!IATA_CODES.has(origin) || !IATA_CODES.has(destination)) continue;
+    const start = match.index ?? 0;
+    routes.push(
+      { type: "airport", value: origin, text: origin, index: start, confidence: 0.95 },
+      { type: "airport", value: destination, text: destination, index: start + whole.lastIndexOf(destination), confidence: 0.95 }
+    );
+  }
+  const single = findAll(/\b[A-Z]{3}\b/g, text, (match) =>
+    IATA_CODES.has(match[0])
+      ? { type: "airport", value: match[0], text: match[0], index: match.index ?? 0, confidence: 0.8 }
+      : null
+  );
+  return [...routes, ...single];
+}
+
+// Dates are read day-first, as written in India; a date without a year is taken in the current year
+function extractDates(text: string, now: number) {
+  const reference = new Date(now);
+  const year = reference.getUTCFullYear();
+
+  const iso = findAll(/\b(\d{4})-(\d{2})-(\d{2})\b/g, text, (match) => ({
+    type: "date",
+    value: isoDate(Number(match[1]), Number(match[2]), Number(match[3])),
+    text: match[0],
+    index: match.index ?? 0,
+    confidence: 0.95,
+  }));
+  const numeric = findAll(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/g, text, (match) => {
+    const fullYear = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return {
+      type: "date",
+      value: isoDate(fullYear, Number(match[2]), Number(match[1])),
+      text: match[0],
+      index: match.index ?? 0,
+      confidence: 0.8,
+    };
+  });
+  const dayMonth = findAll(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}\\b\\.?(?:,?\\s+(\\d{4}))?`, "gi"), text, (match) => {
+    const month = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()) + 1;
+    return {
+      type: "date",
+      value: isoDate(match[3] ? Number(match[3]) : year, month, Number(match[1])),
+      text: match[0],
+      index: match.index ?? 0,
+      confidence: 0.9,
+    };
+  });
+  const monthDay = findAll(new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`, "gi"), text, (match) => {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+    return {
+      type: "date",
+      value: isoDate(match[3] ? Number(match[3]) : year, month, Number(match[2])),
+      text: match[0],
+      index: match.index ?? 0,
+      confidence: 0.85,
+    };
+  });
+  const relative = findAll(/\b(today|tonight|tomorrow|yesterday)\b/gi, text, (match) => {
+    const word = match[1].toLowerCase();
+    const offset = word === "tomorrow" ? 1 : word === "yesterday" ? -1 : 0;
+    return {
+      type: "date",
+      value: new Date(now + offset * DAY_MS).toISOString().slice(0, 10),
+      text: match[0],
+      index: match.index ?? 0,
+      confidence: 0.7,
+    };
+  });
+  return [...iso, ...numeric, ...dayMonth, ...monthDay, ...relative];
+}
+
+function extractContacts(text: string) {
+  // Indian mobile numbers, with or without +91 / 0 and a space in the middle
+  const phones = findAll(/(?<![\d+])(\+91[\s-]?|0)?([6-9]\d{4})[\s-]?(\d{5})(?!\d)/g, text, (match) => {
+    const masked = maskPhone(`${match[2]}${match[3]}`);
+    const index = match.index ?? 0;
+    return {
+      type: "phone",
+      value: `+91${masked}`,
+      text: masked,
+      index,
+      end: index + match[0].length,
+      confidence: match[1] ? 0.95 : 0.8,
+    };
+  });
+  const emails = findAll(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, text, (match) => {
+    const masked = maskEmail(match[0].toLowerCase());
+    const index = match.index ?? 0;
+    return { type: "email", value: masked, text: masked, index, end: index + match[0].length, confidence: 0.95 };
+  });
+  return [...phones, ...emails];
+}
+
+// Extract entities from tweet text. Overlapping matches keep the most confident one;
+// `now` anchors relative dates and dates written without a year.
+export function extractEntities(text: string, now: number): ExtractedEntity[] {
+  const candidates = [
+    ...extractPnrs(text),
+    ...extractFlights(text),
+    ...extractPirs(text),
+    ...extractAirports(text),
+    ...extractDates(text, now),
+    ...extractContacts(text),
+  ].sort((a, b) => b.confidence - a.confidence);
+
+  const end = (candidate: Candidate) => candidate.end ?? candidate.index + candidate.text.length;
+  const kept: Candidate[] = [];
+  for (const candidate of candidates) {
+    if (candidate.value === null) continue;
+    const overlaps = kept.some((other) => candidate.index < end(other) && other.index < end(candidate));
+    if (!overlaps) kept.push(candidate);
+  }
+
+  return kept
+    .sort((a, b) => a.index - b.index)
+    .map(({ type, value, text, index, confidence }) => ({ type, value: value as string, text, index, confidence }));
+}
+
+// Most confident entity of a type, if any reaches the threshold
+export function bestEntity(
+  entities: ExtractedEntity[] | undefined,
+  type: EntityType,
+  minConfidence = 0
+): ExtractedEntity | undefined {
+  return (entities ?? [])
+    .filter((entity) => entity.type === type && entity.confidence >= minConfidence)
+    .sort((a, b) => b.confidence - a.confidence)[0];
+}
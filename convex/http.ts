@@ -1,110 +1,189 @@
 import { httpRouter } from "convex/server";
-import { httpAction } from "./_generated/server";
+import { ActionCtx, httpAction } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { DEFAULT_PROVIDER, getAdapter } from "./adapters/registry";
+import { IngestionAdapter, VerifyResult } from "./adapters/types";
+import { DELIVERY_ID_HEADER, journalEntryFromPayload } from "./deliveryJournal";
+import { ingestDelivery } from "./ingestQueue";
+import { getWebhookAuthConfig, verifyWebhookSignature } from "./webhookAuth";
+import { headersToEntries } from "./webhookPayload";
 
 const http = httpRouter();
 
+const INGEST_PATH_PREFIX = "/ingest/";
+
+// The provider's handshake is a GET or a POST with an empty body
+function isHandshake(text: string) {
+  return text.trim() === "";
+}
+
+function handshakeResponse() {
+  return new Response(
+    JSON.stringify({ success: true, message: "Webhook verified" }),
+    { status: 200, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+// Resolve the adapter named by /ingest/:provider
+function adapterForPath(request: Request) {
+  const provider = new URL(request.url).pathname.slice(INGEST_PATH_PREFIX.length).replace(/\/+$/, "");
+  return getAdapter(provider);
+}
+
+function unknownProviderResponse() {
+  return new Response(
+    JSON.stringify({ error: "Unknown provider" }),
+    { status: 404, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+// Answer a GET handshake, deferring to the adapter for provider-specific challenges
+async function handleHandshake(request: Request, adapter: IngestionAdapter) {
+  const response = adapter.handshake ? await adapter.handshake(request) : null;
+  return response ?? new Response("OK", { status: 200 });
+}
+
+// Check the shared-secret signature and reject replays (skipped without a secret)
+async function verifySharedSecret(ctx: ActionCtx, request: Request, text: string): Promise<VerifyResult> {
+  const { secret, toleranceSeconds } = getWebhookAuthConfig();
+  if (!secret) {
+    return { ok: true };
+  }
+
+  const check = await verifyWebhookSignature(request.headers, text, secret, toleranceSeconds);
+  if (!check.ok) {
+    return check;
+  }
+
+  const { accepted } = await ctx.runMutation(internal.webhookAuth.claimWebhookNonce, {
+    nonce: check.nonce,
+    expiresAt: check.expiresAt,
+  });
+  return accepted ? { ok: true } : { ok: false, reason: "Replayed delivery" };
+}
+
+// Verify, parse, journal and store one delivery using the given adapter
+async function handleDelivery(ctx: ActionCtx, request: Request, adapter: IngestionAdapter) {
+  // 1. Read raw body (handshake requests carry no body)
+  const text = await request.text();
+  if (isHandshake(text)) {
+    return handshakeResponse();
+  }
+
+  // 2. Verify the provider's own signature, or the shared secret when one is configured
+  const check = adapter.verify
+    ? await adapter.verify(request, text)
+    : await verifySharedSecret(ctx, request, text);
+  if (!check.ok) {
+    console.warn(`Rejected ${adapter.provider} delivery: ${check.reason}`);
+    return new Response(
+      JSON.stringify({ error: "Unauthorized" }),
+      { status: 401, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  // 3. Parse, validate and normalize the payload; dead-letter anything malformed
+  const headers = headersToEntries(request.headers);
+  const parsed = adapter.parse(text, { receivedAt: Date.now() });
+  if (!parsed.ok) {
+    await ctx.runMutation(internal.webhookDeliveries.recordRejectedDelivery, {
+      provider: adapter.provider,
+      body: text,
+      reason: parsed.reason,
+      detail: parsed.detail,
+      headers,
+    });
+    return new Response(
+      JSON.stringify({ error: "Invalid payload", reason: parsed.reason, detail: parsed.detail }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  // 4. Journal the accepted delivery, then store its tweets
+  const deliveryId = request.headers.get(DELIVERY_ID_HEADER) ?? crypto.randomUUID();
+  try {
+    await ctx.runMutation(internal.deliveryJournal.journalDelivery, {
+      entry: journalEntryFromPayload(deliveryId, adapter.provider, text, headers, parsed.payload),
+    });
+
+    // 5. Admit what the source's rate allows now, storing it in bounded chunks and
+    // triggering routing for each; the rest is queued for the drain
+    const { accepted, deferred, inserted, updated, skipped } = await ingestDelivery(ctx, {
+      deliveryId,
+      provider: adapter.provider,
+      payload: parsed.payload,
+    });
+
+    // 6. Return success response with counts
+    return new Response(
+      JSON.stringify({
+        success: true,
+        deliveryId,
+        accepted,
+        deferred,
+        inserted,
+        updated,
+        skipped,
+      }),
+      { status: deferred > 0 ? 202 : 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error storing tweets:", error);
+    await ctx.runMutation(internal.webhookDeliveries.recordRejectedDelivery, {
+      provider: adapter.provider,
+      body: text,
+      reason: "store_failed",
+      detail: error instanceof Error ? error.message : "Unknown error",
+      headers,
+    });
+    return new Response(
+      JSON.stringify({ error: "Failed to store tweets" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
+
 // GET handler for Twitter webhook URL verification
 http.route({
   path: "/twitter-webhook",
   method: "GET",
-  handler: httpAction(async () => {
-    return new Response("OK", { status: 200 });
+  handler: httpAction(async (ctx, request) => {
+    return await handleHandshake(request, getAdapter(DEFAULT_PROVIDER)!);
   }),
 });
 
-// POST handler for receiving tweets
+// POST handler for receiving tweets (twitterapi.io webhook shape)
 http.route({
   path: "/twitter-webhook",
   method: "POST",
   handler: httpAction(async (ctx, request) => {
-    // 1. Parse JSON body (return 200 for empty body - verification request)
-    let payload;
-    try {
-      const text = await request.text();
-      if (!text) {
-        return new Response(
-          JSON.stringify({ success: true, message: "Webhook verified" }),
-          { status: 200, headers: { "Content-Type": "application/json" } }
-        );
-      }
-      payload = JSON.parse(text);
-    } catch {
-      // Return 200 for parse errors during verification
-      return new Response(
-        JSON.stringify({ success: true, message: "Webhook verified" }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    }
-
-    // 2. Validate required fields (return 200 if missing - likely verification)
-    const requiredFields = ["event_type", "rule_id", "rule_tag", "tweets", "timestamp"];
-    for (const field of requiredFields) {
-      if (!(field in payload)) {
-        return new Response(
-          JSON.stringify({ success: true, message: "Webhook verified" }),
-          { status: 200, headers: { "Content-Type": "application/json" } }
-        );
-      }
-    }
+    return await handleDelivery(ctx, request, getAdapter(DEFAULT_PROVIDER)!);
+  }),
+});
 
-    if (!Array.isArray(payload.tweets)) {
-      return new Response(
-        JSON.stringify({ success: true, message: "Webhook verified" }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
+// GET handler for provider handshakes on /ingest/:provider (e.g. X CRC checks)
+http.route({
+  pathPrefix: INGEST_PATH_PREFIX,
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    const adapter = adapterForPath(request);
+    if (!adapter) {
+      return unknownProviderResponse();
     }
+    return await handleHandshake(request, adapter);
+  }),
+});
 
-    // 3. Normalize tweets to match validator schema (API uses camelCase)
-    const normalizedTweets = payload.tweets.map((tweet: any) => ({
-      id: tweet.id,
-      text: tweet.text,
-      author: {
-        id: tweet.author.id,
-        userName: tweet.author.userName,
-        name: tweet.author.name,
-      },
-      created_at: tweet.createdAt || tweet.created_at || "",
-      retweet_count: tweet.retweetCount ?? tweet.retweet_count ?? 0,
-      like_count: tweet.likeCount ?? tweet.like_count ?? 0,
-      reply_count: tweet.replyCount ?? tweet.reply_count ?? 0,
-    }));
-
-    // 4. Call internal mutation to store tweets
-    try {
-      const result = await ctx.runMutation(internal.twitter.storeTweets, {
-        payload: {
-          event_type: payload.event_type,
-          rule_id: payload.rule_id,
-          rule_tag: payload.rule_tag,
-          tweets: normalizedTweets,
-          timestamp: payload.timestamp,
-        },
-      });
-
-      // 5. Trigger routing for newly inserted tweets
-      if (result.insertedTweetIds && result.insertedTweetIds.length > 0) {
-        await ctx.scheduler.runAfter(0, internal.routing.processBatchRouting, {
-          tweetIds: result.insertedTweetIds,
-        });
-      }
-
-      // 6. Return success response with counts
-      return new Response(
-        JSON.stringify({
-          success: true,
-          inserted: result.insertedCount,
-          skipped: result.skippedCount,
-        }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    } catch (error) {
-      console.error("Error storing tweets:", error);
-      return new Response(
-        JSON.stringify({ error: "Failed to store tweets" }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
+// POST handler for receiving tweets from any registered provider
+http.route({
+  pathPrefix: INGEST_PATH_PREFIX,
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const adapter = adapterForPath(request);
+    if (!adapter) {
+      return unknownProviderResponse();
     }
+    return await handleDelivery(ctx, request, adapter);
   }),
 });
 
@@ -0,0 +1,67 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { getActor } from "./ruleVersions";
+
+// The declared incident, if any; routing switches to the incident rule set while it lasts
+export async function loadActiveIncident(ctx: QueryCtx) {
+  return await ctx.db
+    .query("incidents")
+    .withIndex("by_active", (q) => q.eq("isActive", true))
+    .first();
+}
+
+// Query to get the active incident, or null in normal operation
+export const getActiveIncident = query({
+  args: {},
+  handler: async (ctx) => {
+    return await loadActiveIncident(ctx);
+  },
+});
+
+// Query to list recent incidents, newest first
+export const getIncidents = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("incidents").order("desc").take(10);
+  },
+});
+
+// Mutation to declare a disruption event and switch routing to the incident rule set
+export const declareIncident = mutation({
+  args: {
+    name: v.string(),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Incident name is required");
+    }
+    const active = await loadActiveIncident(ctx);
+    if (active) {
+      throw new Error(`${active.name} is already declared; end it first`);
+    }
+    return await ctx.db.insert("incidents", {
+      name,
+      note: args.note?.trim() || undefined,
+      isActive: true,
+      declaredBy: await getActor(ctx),
+      declaredAt: Date.now(),
+    });
+  },
+});
+
+// Mutation to end the active incident and return routing to the normal rule set
+export const endIncident = mutation({
+  args: {
+    incidentId: v.id("incidents"),
+  },
+  handler: async (ctx, { incidentId }) => {
+    const incident = await ctx.db.get(incidentId);
+    if (!incident || !incident.isActive) {
+      throw new Error("Incident is not active");
+    }
+    await ctx.db.patch(incidentId, { isActive: false, endedBy: await getActor(ctx), endedAt: Date.now() });
+    return { success: true };
+  },
+});
@@ -0,0 +1,284 @@
+import { v } from "convex/values";
+import { ActionCtx, internalAction, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { loadJournalBody } from "./deliveryJournal";
+import { WebhookPayload } from "./twitter";
+import { parseWebhookPayload } from "./webhookPayload";
+
+// Tweets stored per mutation, keeping each write well inside Convex's limits
+export const INGEST_CHUNK_SIZE = 100;
+
+const DEFAULT_RATE_PER_MINUTE = 600;
+const DEFAULT_BURST_SIZE = 200;
+// A queued chunk this far past due means the drain chain has stopped
+const STALLED_DRAIN_MS = 60 * 1000;
+// Chunks stored per drain run before it hands over to the next
+const MAX_CHUNKS_PER_DRAIN = 20;
+
+// Per-source token bucket settings from the environment
+export function getIngestRateConfig() {
+  const ratePerMinute = Number(process.env.INGEST_RATE_PER_MINUTE);
+  const burstSize = Number(process.env.INGEST_BURST_SIZE);
+  return {
+    ratePerMinute: Number.isFinite(ratePerMinute) && ratePerMinute > 0 ? ratePerMinute : DEFAULT_RATE_PER_MINUTE,
+    burstSize: Number.isFinite(burstSize) && burstSize > 0 ? burstSize : DEFAULT_BURST_SIZE,
+  };
+}
+
+// Deliveries are throttled per provider and upstream rule
+export function ingestSourceKey(provider: string, ruleId: string) {
+  return `${provider}:${ruleId}`;
+}
+
+// Split a payload into payloads of at most `size` tweets each
+export function chunkPayload(payload: WebhookPayload, size = INGEST_CHUNK_SIZE): WebhookPayload[] {
+  const chunks: WebhookPayload[] = [];
+  for (let i = 0; i < payload.tweets.length; i += size) {
+    chunks.push({ ...payload, tweets: payload.tweets.slice(i, i + size) });
+  }
+  return chunks;
+}
+
+// Take up to `requested` tokens from a source's bucket.
+// With `allowPartial` off, a request is granted whole (possibly driving the bucket
+// into debt) once the bucket holds enough for it or is full, otherwise not at all.
+async function takeTokens(
+  ctx: MutationCtx,
+  source: string,
+  requested: number,
+  allowPartial: boolean,
+  now: number
+) {
+  const { ratePerMinute, burstSize } = getIngestRateConfig();
+  const refillPerMs = ratePerMinute / 60_000;
+
+  const bucket = await ctx.db
+    .query("ingestRateLimits")
+    .withIndex("by_source", (q) => q.eq("source", source))
+    .first();
+  const available = bucket
+    ? Math.min(burstSize, bucket.tokens + (now - bucket.refilledAt) * refillPerMs)
+    : burstSize;
+
+  const needed = Math.min(requested, burstSize);
+  const granted = allowPartial
+    ? Math.max(0, Math.min(requested, Math.floor(available)))
+    : available >= needed ? requested : 0;
+
+  const tokens = available - granted;
+  if (bucket) {
+    await ctx.db.patch(bucket._id, { tokens, refilledAt: now });
+  } else {
+    await ctx.db.insert("ingestRateLimits", { source, tokens, refilledAt: now });
+  }
+
+  // Time until the bucket can cover the rest of the request
+  const shortfall = Math.min(requested - granted, burstSize) - tokens;
+  const retryAfterMs = shortfall > 0 ? Math.ceil(shortfall / refillPerMs) : 0;
+
+  return { granted, retryAfterMs };
+}
+
+async function getNextQueuedChunk(ctx: MutationCtx) {
+  return await ctx.db
+    .query("ingestQueue")
+    .withIndex("by_available_at")
+    .order("asc")
+    .first();
+}
+
+// Internal query to re-read a queued delivery's tweets from its journal entry. A drain run
+// loads each delivery once and slices every chunk of it from the same payload.
+export const getQueuedDelivery = internalQuery({
+  args: {
+    deliveryId: v.string(),
+  },
+  handler: async (ctx, { deliveryId }): Promise<WebhookPayload> => {
+    const entry = await ctx.db
+      .query("deliveryJournal")
+      .withIndex("by_delivery_id", (q) => q.eq("deliveryId", deliveryId))
+      .first();
+    if (!entry) {
+      throw new Error(`Journal entry ${deliveryId} not found for queued chunk`);
+    }
+    const parsed = parseWebhookPayload(await loadJournalBody(ctx, entry), entry.provider, entry.receivedAt);
+    if (!parsed.ok) {
+      throw new Error(`Journal entry ${deliveryId} no longer parses: ${parsed.reason}`);
+    }
+    return { ...parsed.payload, timestamp: entry.timestamp };
+  },
+});
+
+// Internal mutation to admit a journaled delivery: the number of tweets the source's rate
+// allows is returned for immediate storage, the rest are queued as chunks that refer back
+// to the journal entry, so the queue never holds the tweets themselves
+export const admitDelivery = internalMutation({
+  args: {
+    deliveryId: v.string(),
+    provider: v.string(),
+    ruleId: v.string(),
+    tweetCount: v.number(),
+    renormalize: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { deliveryId, provider, ruleId, tweetCount, renormalize }) => {
+    const now = Date.now();
+    const source = ingestSourceKey(provider, ruleId);
+    const { granted, retryAfterMs } = await takeTokens(ctx, source, tweetCount, true, now);
+
+    if (granted < tweetCount) {
+      const queueWasEmpty = (await getNextQueuedChunk(ctx)) === null;
+      const availableAt = now + retryAfterMs;
+
+      for (let offset = granted; offset < tweetCount; offset += INGEST_CHUNK_SIZE) {
+        await ctx.db.insert("ingestQueue", {
+          deliveryId,
+          provider,
+          source,
+          offset,
+          tweetCount: Math.min(INGEST_CHUNK_SIZE, tweetCount - offset),
+          renormalize,
+          enqueuedAt: now,
+          availableAt,
+        });
+      }
+
+      // A non-empty queue already has a drain scheduled
+      if (queueWasEmpty) {
+        await ctx.scheduler.runAfter(retryAfterMs, internal.ingestQueue.drainIngestQueue, {});
+      }
+    }
+
+    return { accepted: granted, deferred: tweetCount - granted };
+  },
+});
+
+// Store one chunk of a delivery and trigger routing for the new tweets
+async function storeChunk(
+  ctx: ActionCtx,
+  payload: WebhookPayload,
+  deliveryId: string,
+  renormalize: boolean | undefined
+) {
+  const result = await ctx.runMutation(internal.twitter.storeTweets, { payload, deliveryId, renormalize });
+  if (result.insertedTweetIds.length > 0) {
+    await ctx.scheduler.runAfter(0, internal.routing.processBatchRouting, {
+      tweetIds: result.insertedTweetIds,
+    });
+  }
+  return result;
+}
+
+// Admit a journaled delivery and store what the source's rate allows now in bounded chunks,
+// triggering routing for each. Live webhooks and every replay path come through here.
+export async function ingestDelivery(
+  ctx: ActionCtx,
+  args: { deliveryId: string; provider: string; payload: WebhookPayload; renormalize?: boolean }
+) {
+  const { accepted, deferred } = await ctx.runMutation(internal.ingestQueue.admitDelivery, {
+    deliveryId: args.deliveryId,
+    provider: args.provider,
+    ruleId: args.payload.rule_id,
+    tweetCount: args.payload.tweets.length,
+    renormalize: args.renormalize,
+  });
+
+  const totals = { accepted, deferred, inserted: 0, updated: 0, skipped: 0, renormalized: 0 };
+  const admitted = { ...args.payload, tweets: args.payload.tweets.slice(0, accepted) };
+  for (const chunk of chunkPayload(admitted)) {
+    const result = await storeChunk(ctx, chunk, args.deliveryId, args.renormalize);
+    totals.inserted += result.insertedCount;
+    totals.updated += result.updatedCount;
+    totals.skipped += result.skippedCount;
+    totals.renormalized += result.renormalizedCount;
+  }
+  return totals;
+}
+
+// Internal mutation to take the next queued chunk once its source has capacity. The chunk
+// stays queued until completeQueuedChunk, so a failed drain leaves it for the next run.
+export const claimQueuedChunk = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const next = await getNextQueuedChunk(ctx);
+    if (!next) {
+      return { status: "empty" as const };
+    }
+
+    if (next.availableAt > now) {
+      return { status: "waiting" as const, retryAfterMs: next.availableAt - now };
+    }
+
+    const { granted, retryAfterMs } = await takeTokens(ctx, next.source, next.tweetCount, false, now);
+    if (granted === 0) {
+      // Push this source back and let other sources' chunks go first
+      await ctx.db.patch(next._id, { availableAt: now + retryAfterMs });
+      return { status: "throttled" as const };
+    }
+    return { status: "ready" as const, chunk: next };
+  },
+});
+
+// Internal mutation to drop a chunk from the queue once its tweets are stored
+export const completeQueuedChunk = internalMutation({
+  args: {
+    chunkId: v.id("ingestQueue"),
+  },
+  handler: async (ctx, { chunkId }) => {
+    if (await ctx.db.get(chunkId)) {
+      await ctx.db.delete(chunkId);
+    }
+  },
+});
+
+// Internal action to store deferred chunks as their sources gain capacity. Each run handles
+// up to MAX_CHUNKS_PER_DRAIN chunks, reading each delivery from the journal once, and then
+// schedules the next, so the queue drains as a chain.
+export const drainIngestQueue = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const deliveries = new Map<string, WebhookPayload>();
+    let stored = 0;
+
+    for (let run = 0; run < MAX_CHUNKS_PER_DRAIN; run++) {
+      const claim = await ctx.runMutation(internal.ingestQueue.claimQueuedChunk, {});
+      if (claim.status === "empty") {
+        return { stored };
+      }
+      if (claim.status === "waiting") {
+        await ctx.scheduler.runAfter(claim.retryAfterMs, internal.ingestQueue.drainIngestQueue, {});
+        return { stored };
+      }
+      if (claim.status === "throttled") {
+        continue;
+      }
+
+      const { chunk } = claim;
+      let delivery = deliveries.get(chunk.deliveryId);
+      if (!delivery) {
+        delivery = await ctx.runQuery(internal.ingestQueue.getQueuedDelivery, { deliveryId: chunk.deliveryId });
+        deliveries.set(chunk.deliveryId, delivery);
+      }
+      const payload = { ...delivery, tweets: delivery.tweets.slice(chunk.offset, chunk.offset + chunk.tweetCount) };
+      await storeChunk(ctx, payload, chunk.deliveryId, chunk.renormalize);
+      await ctx.runMutation(internal.ingestQueue.completeQueuedChunk, { chunkId: chunk._id });
+      stored += chunk.tweetCount;
+    }
+
+    await ctx.scheduler.runAfter(0, internal.ingestQueue.drainIngestQueue, {});
+    return { stored };
+  },
+});
+
+// Internal mutation to restart the drain if a failed run broke the chain (run from crons.ts)
+export const resumeStalledDrain = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const next = await getNextQueuedChunk(ctx);
+    if (next && next.availableAt < Date.now() - STALLED_DRAIN_MS) {
+      await ctx.scheduler.runAfter(0, internal.ingestQueue.drainIngestQueue, {});
+      return { resumed: true };
+    }
+    return { resumed: false };
+  },
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { MAX_TOKENS_PER_LABEL, naiveBayesClassifier, tokenize, trainNaiveBayes } from "./intentClassifier";
+
+const examples = [
+  { text: "My flight 6E 2176 is delayed again", intent: "delay" },
+  { text: "Delayed by three hours, no update at the gate", intent: "delay" },
+  { text: "Still waiting for my refund of the cancelled booking", intent: "refund" },
+  { text: "Refund not credited after 20 days", intent: "refund" },
+  { text: "Lost baggage at BLR, bag never arrived", intent: "baggage" },
+];
+
+describe("tokenize", () => {
+  it("drops urls, stop words, handles, numbers and single letters", () => {
+    expect(tokenize("@IndiGo6E my #refund for 6E 2176 https://t.co/x isn't here")).toEqual([
+      "refund",
+      "6e",
+      "isn't",
+      "here",
+    ]);
+  });
+});
+
+describe("trainNaiveBayes", () => {
+  it("counts documents and tokens per label", () => {
+    const model = trainNaiveBayes(examples);
+
+    expect(model.exampleCount).toBe(5);
+    expect(model.labels.map((label) => label.label)).toEqual(["baggage", "delay", "refund"]);
+
+    const refund = model.labels.find((label) => label.label === "refund")!;
+    expect(refund.documentCount).toBe(2);
+    expect(refund.counts[refund.tokens.indexOf("refund")]).toBe(2);
+    expect(refund.tokenCount).toBe(refund.counts.reduce((sum, count) => sum + count, 0));
+
+    const vocabulary = new Set(examples.flatMap((example) => tokenize(example.text)));
+    expect(model.vocabularySize).toBe(vocabulary.size);
+  });
+
+  it("keeps only the most frequent tokens of a label", () => {
+    const words = Array.from({ length: MAX_TOKENS_PER_LABEL + 500 }, (_, index) => `word${index.toString(36)}x`);
+    const model = trainNaiveBayes([
+      ...words.map((word) => ({ text: `refund ${word}`, intent: "refund" })),
+      { text: "delayed flight", intent: "delay" },
+    ]);
+
+    const refund = model.labels.find((label) => label.label === "refund")!;
+    expect(refund.tokens).toHaveLength(MAX_TOKENS_PER_LABEL);
+    expect(refund.counts).toHaveLength(MAX_TOKENS_PER_LABEL);
+    expect(refund.tokens[0]).toBe("refund");
+    expect(refund.counts[0]).toBe(words.length);
+    // Smoothing still sees everything that was trained on
+    expect(refund.tokenCount).toBe(words.length * 2);
+    expect(model.vocabularySize).toBe(words.length + 3);
+  });
+
+  it("leaves overlong tokens out of the stored counts", () => {
+    const model = trainNaiveBayes([{ text: `refund ${"x".repeat(60)}`, intent: "refund" }]);
+    expect(model.labels[0].tokens).toEqual(["refund"]);
+    expect(model.labels[0].tokenCount).toBe(2);
+  });
+
+  it("produces an empty model without examples", () => {
+    expect(trainNaiveBayes([])).toEqual({ labels: [], vocabularySize: 0, exampleCount: 0 });
+  });
+});
+
+describe("naiveBayesClassifier", () => {
+  const classifier = naiveBayesClassifier(trainNaiveBayes(examples));
+
+  it("predicts the label whose words the text shares", () => {
+    expect(classifier.classify("When will my refund be credited?")?.intent).toBe("refund");
+    expect(classifier.classify("Flight delayed, stuck at the gate")?.intent).toBe("delay");
+    expect(classifier.classify("My bag is lost")?.intent).toBe("baggage");
+  });
+
+  it("reports the posterior as a confidence between 0 and 1", () => {
+    const strong = classifier.classify("refund refund credited cancelled")!;
+    const weak = classifier.classify("waiting")!;
+
+    expect(strong.confidence).toBeGreaterThan(0.9);
+    expect(strong.confidence).toBeLessThanOrEqual(1);
+    expect(weak.confidence).toBeGreaterThan(0);
+    expect(weak.confidence).toBeLessThan(strong.confidence);
+  });
+
+  it("ignores unknown tokens", () => {
+    expect(classifier.classify("refund pls kthx zxqv")).toEqual(classifier.classify("refund"));
+  });
+
+  it("returns null for text with no known words", () => {
+    expect(classifier.classify("completely unrelated chatter")).toBeNull();
+  });
+
+  it("returns null for empty input", () => {
+    expect(classifier.classify("")).toBeNull();
+    expect(classifier.classify("@IndiGo6E the 2176")).toBeNull();
+  });
+
+  it("returns null from an untrained model", () => {
+    expect(naiveBayesClassifier(trainNaiveBayes([])).classify("refund")).toBeNull();
+  });
+
+  it("uses the given name", () => {
+    expect(classifier.name).toBe("naive_bayes");
+    expect(naiveBayesClassifier(trainNaiveBayes(examples), "nb_v2").name).toBe("nb_v2");
+  });
+});
@@ -0,0 +1,131 @@
+// Intent classification ahead of keyword routing. Classifiers are plain objects so routing,
+// previews and scripts can swap the local model for another implementation.
+
+export type IntentPrediction = {
+  intent: string;
+  confidence: number; // 0..1
+};
+
+export type IntentClassifier = {
+  name: string;
+  // null when the classifier has nothing to say about the text
+  classify: (text: string) => IntentPrediction | null;
+};
+
+export type LabelledExample = {
+  text: string;
+  intent: string;
+};
+
+// Multinomial naive Bayes counts, stored as parallel arrays (see the intentModels table).
+// tokenCount covers every token seen, including ones trimmed from the stored arrays.
+export type NaiveBayesModel = {
+  labels: Array<{
+    label: string;
+    documentCount: number;
+    tokenCount: number;
+    tokens: string[];
+    counts: number[];
+  }>;
+  vocabularySize: number;
+  exampleCount: number;
+};
+
+// One intentModels document holds every label's counts, and Convex caps arrays at 8192 items
+// and documents at 1 MiB. Each label keeps its most frequent tokens, sharing a model-wide budget;
+// tokens longer than a word are left out of the model altogether.
+export const MAX_TOKENS_PER_LABEL = 2000;
+const MAX_MODEL_TOKENS = 16_000;
+const MAX_STORED_TOKEN_LENGTH = 40;
+
+// Words that say nothing about intent, plus our own handles
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "at", "be", "but", "by", "for", "from", "has", "have", "i", "in", "is", "it", "me",
+  "my", "of", "on", "or", "our", "so", "that", "the", "this", "to", "was", "we", "with", "you", "your",
+  "indigo", "indigo6e", "rt",
+]);
+
+export function tokenize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/[@#]/g, " ")
+    .split(/[^\p{L}\p{N}']+/u)
+    .map((token) => token.replace(/^'+|'+$/g, ""))
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token) && !/^\d+$/.test(token));
+}
+
+export function trainNaiveBayes(examples: LabelledExample[]): NaiveBayesModel {
+  const byLabel = new Map<string, { documentCount: number; tokenCount: number; counts: Map<string, number> }>();
+  const vocabulary = new Set<string>();
+
+  for (const example of examples) {
+    const stats = byLabel.get(example.intent) ?? { documentCount: 0, tokenCount: 0, counts: new Map() };
+    byLabel.set(example.intent, stats);
+    stats.documentCount += 1;
+    for (const token of tokenize(example.text)) {
+      vocabulary.add(token);
+      stats.tokenCount += 1;
+      stats.counts.set(token, (stats.counts.get(token) ?? 0) + 1);
+    }
+  }
+
+  // Smoothing still counts every token seen; only the stored counts are trimmed
+  const tokensPerLabel = Math.min(MAX_TOKENS_PER_LABEL, Math.floor(MAX_MODEL_TOKENS / Math.max(byLabel.size, 1)));
+  return {
+    labels: [...byLabel.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([label, stats]) => {
+        const kept = [...stats.counts.entries()]
+          .filter(([token]) => token.length <= MAX_STORED_TOKEN_LENGTH)
+          .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+          .slice(0, tokensPerLabel);
+        return {
+          label,
+          documentCount: stats.documentCount,
+          tokenCount: stats.tokenCount,
+          tokens: kept.map(([token]) => token),
+          counts: kept.map(([, count]) => count),
+        };
+      }),
+    vocabularySize: vocabulary.size,
+    exampleCount: examples.length,
+  };
+}
+
+// Classifier over a trained model, with Laplace smoothing. Confidence is the posterior
+// probability of the best label; text with no known words gets no prediction.
+export function naiveBayesClassifier(model: NaiveBayesModel, name = "naive_bayes"): IntentClassifier {
+  const labels = model.labels.map((label) => ({
+    label: label.label,
+    logPrior: Math.log(label.documentCount / Math.max(model.exampleCount, 1)),
+    tokenCount: label.tokenCount,
+    counts: new Map(label.tokens.map((token, index) => [token, label.counts[index]])),
+  }));
+  const vocabulary = new Set(labels.flatMap((label) => [...label.counts.keys()]));
+
+  return {
+    name,
+    classify: (text) => {
+      const tokens = tokenize(text).filter((token) => vocabulary.has(token));
+      if (labels.length === 0 || tokens.length === 0) {
+        return null;
+      }
+
+      const scores = labels.map((label) => {
+        const denominator = label.tokenCount + model.vocabularySize;
+        return tokens.reduce(
+          (score, token) => score + Math.log(((label.counts.get(token) ?? 0) + 1) / denominator),
+          label.logPrior
+        );
+      });
+
+      // Softmax over log scores, shifted by the max for numerical stability
+      const max = Math.max(...scores);
+      const weights = scores.map((score) => Math.exp(score - max));
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      const best = weights.indexOf(Math.max(...weights));
+      return { intent: labels[best].label, confidence: weights[best] / total };
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import { v } from "convex/values";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { IntentClassifier, LabelledExample, naiveBayesClassifier, trainNaiveBayes } from "./intentClassifier";
+
+// Too few examples make a model that is confidently wrong
+const MIN_TRAINING_EXAMPLES = 10;
+const MIN_TRAINING_LABELS = 2;
+
+export type LoadedIntentModel = {
+  modelId: Id<"intentModels">;
+  classifier: IntentClassifier;
+};
+
+// The active intent model as a classifier, if one has been trained
+export async function loadIntentClassifier(ctx: QueryCtx): Promise<LoadedIntentModel | null> {
+  const model = await ctx.db
+    .query("intentModels")
+    .withIndex("by_active", (q) => q.eq("isActive", true))
+    .order("desc")
+    .first();
+  if (!model) {
+    return null;
+  }
+  return { modelId: model._id, classifier: naiveBayesClassifier(model, model.kind) };
+}
+
+// Predict a tweet's intent and store it on the tweet; returns the tweet as routing should see it
+export async function classifyTweet(
+  ctx: MutationCtx,
+  tweet: Doc<"tweets">,
+  model: LoadedIntentModel | null
+): Promise<Doc<"tweets">> {
+  const prediction = model?.classifier.classify(tweet.text) ?? null;
+  const fields = {
+    intent: prediction?.intent,
+    intentConfidence: prediction?.confidence,
+    intentModelId: prediction ? model?.modelId : undefined,
+  };
+  if (
+    fields.intent !== tweet.intent ||
+    fields.intentConfidence !== tweet.intentConfidence ||
+    fields.intentModelId !== tweet.intentModelId
+  ) {
+    await ctx.db.patch(tweet._id, fields);
+  }
+  return { ...tweet, ...fields };
+}
+
+// Tweets agents replied to, labelled with the intent of the rule that routed them, then
+// overridden by agent corrections (the latest per tweet wins; "not routable" drops the tweet)
+async function collectLabelledExamples(ctx: QueryCtx) {
+  const rules = (await ctx.db.query("routingRules").collect()).filter((rule) => rule.intent);
+  const examples = new Map<Id<"tweets">, LabelledExample>();
+  const seen = new Set<string>();
+
+  for (const rule of rules) {
+    const responses = await ctx.db
+      .query("tweetResponses")
+      .withIndex("by_rule", (q) => q.eq("routingRuleId", rule._id))
+      .collect();
+    for (const response of responses) {
+      if (response.status !== "sent" || seen.has(response.originalTweetId)) {
+        continue;
+      }
+      seen.add(response.originalTweetId);
+      const tweet = await ctx.db
+        .query("tweets")
+        .withIndex("by_tweet_id", (q) => q.eq("tweetId", response.originalTweetId))
+        .first();
+      if (tweet) {
+        examples.set(tweet._id, { text: tweet.text, intent: rule.intent! });
+      }
+    }
+  }
+
+  const corrections = await ctx.db.query("routingCorrections").collect();
+  for (const correction of corrections) {
+    if (correction.correctedIntent) {
+      examples.set(correction.tweetId, { text: correction.text, intent: correction.correctedIntent });
+    } else {
+      examples.delete(correction.tweetId);
+    }
+  }
+  return [...examples.values()];
+}
+
+// Mutation to train a new intent model from labelled tweets and make it the active one
+export const trainIntentModel = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const examples = await collectLabelledExamples(ctx);
+    const labels = new Set(examples.map((example) => example.intent));
+    if (examples.length < MIN_TRAINING_EXAMPLES || labels.size < MIN_TRAINING_LABELS) {
+      throw new Error(
+        `Need at least ${MIN_TRAINING_EXAMPLES} replied-to or relabelled tweets across ${MIN_TRAINING_LABELS} intents to train (have ${examples.length} across ${labels.size})`
+      );
+    }
+
+    const model = trainNaiveBayes(examples);
+    const previous = await ctx.db
+      .query("intentModels")
+      .withIndex("by_active", (q) => q.eq("isActive", true))
+      .collect();
+    for (const old of previous) {
+      await ctx.db.patch(old._id, { isActive: false });
+    }
+
+    const modelId = await ctx.db.insert("intentModels", {
+      kind: "naive_bayes",
+      ...model,
+      isActive: true,
+      trainedAt: Date.now(),
+    });
+    return { modelId, exampleCount: model.exampleCount, labels: [...labels].sort() };
+  },
+});
+
+// Query to list trained intent models, newest first, without their token counts
+export const getIntentModels = query({
+  args: {},
+  handler: async (ctx) => {
+    const models = await ctx.db.query("intentModels").order("desc").take(10);
+    return models.map((model) => ({
+      _id: model._id,
+      kind: model.kind,
+      isActive: model.isActive,
+      trainedAt: model.trainedAt,
+      exampleCount: model.exampleCount,
+      vocabularySize: model.vocabularySize,
+      labels: model.labels.map((label) => ({ label: label.label, documentCount: label.documentCount })),
+    }));
+  },
+});
+
+// Query to try the active intent model on some text
+export const classifyText = query({
+  args: {
+    text: v.string(),
+  },
+  handler: async (ctx, { text }) => {
+    const model = await loadIntentClassifier(ctx);
+    if (!model) {
+      return null;
+    }
+    return model.classifier.classify(text);
+  },
+});
@@ -0,0 +1,370 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, MutationCtx, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { loadActiveIncident } from "./incidents";
+import { classifyTweet, loadIntentClassifier, LoadedIntentModel } from "./intents";
+import {
+  conversationRule,
+  decisionFields,
+  findMatchingRule,
+  joinConversationFields,
+  settleDecisionResponse,
+} from "./routing";
+import { renderResponse } from "./responseTemplate";
+import { buildRoutingTrace, RoutingTrace } from "./routingEngine";
+import { currentRuleVersionId } from "./ruleVersions";
+import { scoreTweet } from "./tweetScoring";
+
+// Tweets re-evaluated per scheduled batch
+const REROUTE_BATCH_SIZE = 50;
+
+// A stalled job (e.g. a failed batch) can be resumed after this long without progress
+const STALLED_AFTER_MS = 60_000;
+
+export type RerouteOutcome = "rerouted" | "unchanged" | "responded";
+
+export type ResponseCounts = {
+  responsesCreated: number;
+  responsesReplaced: number;
+  responsesRemoved: number;
+};
+
+// A rule chosen by an agent instead of by the rules (see corrections.ts)
+export type RouteOverride = {
+  rule: Doc<"routingRules"> | null;
+  outcome: string;
+};
+
+// Re-evaluate one tweet against the current rules, or send it where an override says.
+// Tweets that were responded to are never touched, and only pending responses the router
+// created are replaced; manual drafts are left alone. A conversation keeps a single reply.
+export async function rerouteTweet(
+  ctx: MutationCtx,
+  storedTweet: Doc<"tweets">,
+  intentModel: LoadedIntentModel | null,
+  counts: ResponseCounts,
+  override?: RouteOverride
+): Promise<RerouteOutcome> {
+  if (storedTweet.routingStatus === "responded") {
+    return "responded";
+  }
+  const responses = await ctx.db
+    .query("tweetResponses")
+    .withIndex("by_original_tweet", (q) => q.eq("originalTweetId", storedTweet.tweetId))
+    .collect();
+  if (responses.some((response) => response.status === "sent")) {
+    return "responded";
+  }
+  const conversation = storedTweet.threadId ? await ctx.db.get(storedTweet.threadId) : null;
+  if (conversation?.routingStatus === "responded") {
+    return "responded";
+  }
+
+  // A conversation gets one reply: a follow-up defers to the one another of its tweets has queued or sent
+  const threadId = storedTweet.threadId;
+  const threadResponses = threadId
+    ? (
+        await ctx.db
+          .query("tweetResponses")
+          .withIndex("by_thread", (q) => q.eq("threadId", threadId))
+          .collect()
+      ).filter((response) => response.originalTweetId !== storedTweet.tweetId)
+    : [];
+  if (threadResponses.some((response) => response.status === "sent")) {
+    return "responded";
+  }
+  const threadReply = threadResponses.find((response) => response.status === "pending");
+  const isFollowUp = threadReply !== undefined && !responses.some((response) => response.status === "pending");
+
+  // An agent's relabelling wins over the rules
+  if (!override) {
+    const correction = await ctx.db
+      .query("routingCorrections")
+      .withIndex("by_tweet", (q) => q.eq("tweetId", storedTweet._id))
+      .first();
+    if (correction) {
+      return "unchanged";
+    }
+  }
+
+  let tweet = storedTweet;
+  let rule: Doc<"routingRules"> | null;
+  let exclusionHits = storedTweet.exclusionHits;
+  let routingTrace: RoutingTrace;
+  let routing: ReturnType<typeof decisionFields>;
+  let response: { responseText: string; variantKey?: string; merged?: boolean } | null;
+  if (override) {
+    rule = override.rule;
+    routingTrace = { evaluatedAt: Date.now(), outcome: override.outcome, matchedRuleId: rule?._id, rules: [] };
+    routing = { matchedRuleIds: rule ? [rule._id] : [], routingPolicy: "top", escalationReason: undefined };
+    response = rule ? renderResponse(tweet, rule, Date.now()) : null;
+  } else {
+    // The intent model may have been retrained since the tweet was first routed
+    tweet = await classifyTweet(ctx, storedTweet, intentModel);
+
+    // Follow-ups stay with their conversation's rule while it would still route, as on first routing
+    let conversationNote: string | undefined;
+    if (isFollowUp) {
+      const joined = await conversationRule(ctx, conversation, await loadActiveIncident(ctx), Date.now());
+      if (joined.rule) {
+        const unchanged = tweet.routingStatus === "routed" && tweet.matchedRuleId === joined.rule._id;
+        await ctx.db.patch(tweet._id, await joinConversationFields(ctx, tweet, joined.rule, Date.now()));
+        return unchanged ? "unchanged" : "rerouted";
+      }
+      conversationNote = joined.note;
+    }
+
+    const found = await findMatchingRule(ctx, tweet);
+    const settled = settleDecisionResponse(
+      tweet,
+      conversationNote ? { ...found, outcome: `${found.outcome} (${conversationNote})` } : found,
+      Date.now()
+    );
+    const decision = settled.decision;
+    rule = decision.rule;
+    exclusionHits = decision.exclusions;
+    routingTrace = buildRoutingTrace(decision, Date.now());
+    routing = decisionFields(decision);
+    response = settled.response;
+  }
+
+  const routedResponses = responses.filter((response) => response.status === "pending" && response.routingRuleId);
+  const hasManualResponse = responses.some((response) => response.status === "pending" && !response.routingRuleId);
+
+  const newStatus = rule ? "routed" : "skipped";
+  // Tweets routed before every match was stored only compare on the winner
+  const sameMatches =
+    tweet.matchedRuleIds === undefined || tweet.matchedRuleIds.join() === routing.matchedRuleIds.join();
+  if (
+    tweet.routingStatus === newStatus &&
+    tweet.matchedRuleId === rule?._id &&
+    sameMatches &&
+    tweet.escalationReason === routing.escalationReason
+  ) {
+    await ctx.db.patch(tweet._id, { ...routing, exclusionHits, routingTrace, ...scoreTweet(tweet, rule) });
+    return "unchanged";
+  }
+
+  // No automatic reply stays queued without a rule, or when conflicting rules escalate to a human
+  if (!response) {
+    for (const routedResponse of routedResponses) {
+      await ctx.db.delete(routedResponse._id);
+      counts.responsesRemoved += 1;
+    }
+  }
+  if (!rule) {
+    await ctx.db.patch(tweet._id, {
+      routingStatus: "skipped",
+      matchedRuleId: undefined,
+      matchedRuleVersionId: undefined,
+      ...routing,
+      exclusionHits,
+      routingTrace,
+      ...scoreTweet(tweet, null),
+    });
+    return "rerouted";
+  }
+
+  const matchedRuleVersionId = await currentRuleVersionId(ctx, rule);
+  if (response) {
+    const { responseText, variantKey, merged } = response;
+    const [replaceable] = routedResponses;
+    if (replaceable) {
+      await ctx.db.patch(replaceable._id, {
+        routingRuleId: rule._id,
+        routingRuleVersionId: matchedRuleVersionId,
+        responseText,
+        variantKey,
+        merged,
+      });
+      counts.responsesReplaced += 1;
+    } else if (!hasManualResponse && !threadReply) {
+      await ctx.db.insert("tweetResponses", {
+        originalTweetId: tweet.tweetId,
+        threadId: tweet.threadId,
+        routingRuleId: rule._id,
+        routingRuleVersionId: matchedRuleVersionId,
+        responseText,
+        variantKey,
+        merged,
+        status: "pending",
+        createdAt: Date.now(),
+      });
+      counts.responsesCreated += 1;
+    }
+  }
+
+  await ctx.db.patch(tweet._id, {
+    routingStatus: "routed",
+    matchedRuleId: rule._id,
+    matchedRuleVersionId,
+    ...routing,
+    exclusionHits,
+    routingTrace,
+    ...scoreTweet(tweet, rule),
+  });
+  // The conversation keeps the rule behind the reply another of its tweets has queued
+  if (conversation && !threadReply) {
+    await ctx.db.patch(conversation._id, {
+      routingStatus: "routed",
+      matchedRuleId: rule._id,
+    });
+  }
+  return "rerouted";
+}
+
+function matchesScope(job: Doc<"reroutingJobs">, tweet: Doc<"tweets">) {
+  if (job.routingStatuses && job.routingStatuses.length > 0) {
+    if (!job.routingStatuses.includes(tweet.routingStatus ?? "pending")) {
+      return false;
+    }
+  }
+  if (job.ruleId && tweet.matchedRuleId !== job.ruleId) {
+    return false;
+  }
+  return true;
+}
+
+// Internal mutation to re-route one page of tweets and schedule the next
+export const runReroutingBatch = internalMutation({
+  args: {
+    jobId: v.id("reroutingJobs"),
+  },
+  handler: async (ctx, { jobId }) => {
+    const job = await ctx.db.get(jobId);
+    if (!job || job.status !== "running") {
+      return;
+    }
+
+    const page = await ctx.db
+      .query("tweets")
+      .withIndex("by_creation_time", (q) => {
+        const from = job.since !== undefined ? q.gte("_creationTime", job.since) : q;
+        return job.until !== undefined ? from.lte("_creationTime", job.until) : from;
+      })
+      .paginate({ cursor: job.cursor ?? null, numItems: REROUTE_BATCH_SIZE });
+
+    const counts: ResponseCounts = {
+      responsesCreated: job.responsesCreated,
+      responsesReplaced: job.responsesReplaced,
+      responsesRemoved: job.responsesRemoved,
+    };
+    let rerouted = job.rerouted;
+    let unchanged = job.unchanged;
+    let responded = job.responded;
+    const intentModel = await loadIntentClassifier(ctx);
+
+    for (const tweet of page.page) {
+      if (!matchesScope(job, tweet)) {
+        continue;
+      }
+      const outcome = await rerouteTweet(ctx, tweet, intentModel, counts);
+      if (outcome === "rerouted") rerouted += 1;
+      else if (outcome === "unchanged") unchanged += 1;
+      else responded += 1;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(jobId, {
+      ...counts,
+      cursor: page.continueCursor,
+      scanned: job.scanned + page.page.length,
+      rerouted,
+      unchanged,
+      responded,
+      updatedAt: now,
+      ...(page.isDone ? { status: "completed", completedAt: now } : {}),
+    });
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.rerouting.runReroutingBatch, { jobId });
+    }
+  },
+});
+
+// Mutation to start re-routing stored tweets against the current rules
+export const startReroutingJob = mutation({
+  args: {
+    since: v.optional(v.number()),
+    until: v.optional(v.number()),
+    routingStatuses: v.optional(v.array(v.string())),
+    ruleId: v.optional(v.id("routingRules")),
+  },
+  handler: async (ctx, args): Promise<Id<"reroutingJobs">> => {
+    if (args.since !== undefined && args.until !== undefined && args.since > args.until) {
+      throw new Error("The start of the time range must be before its end");
+    }
+
+    const now = Date.now();
+    const jobId = await ctx.db.insert("reroutingJobs", {
+      status: "running",
+      since: args.since,
+      until: args.until,
+      routingStatuses: args.routingStatuses,
+      ruleId: args.ruleId,
+      scanned: 0,
+      rerouted: 0,
+      unchanged: 0,
+      responded: 0,
+      responsesCreated: 0,
+      responsesReplaced: 0,
+      responsesRemoved: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.rerouting.runReroutingBatch, { jobId });
+    return jobId;
+  },
+});
+
+// Mutation to stop a running job after its current batch
+export const cancelReroutingJob = mutation({
+  args: {
+    jobId: v.id("reroutingJobs"),
+  },
+  handler: async (ctx, { jobId }) => {
+    const job = await ctx.db.get(jobId);
+    if (!job || job.status !== "running") {
+      throw new Error("Job is not running");
+    }
+    await ctx.db.patch(jobId, { status: "cancelled", updatedAt: Date.now() });
+    return { success: true };
+  },
+});
+
+// Mutation to continue a cancelled or stalled job from its cursor
+export const resumeReroutingJob = mutation({
+  args: {
+    jobId: v.id("reroutingJobs"),
+  },
+  handler: async (ctx, { jobId }) => {
+    const job = await ctx.db.get(jobId);
+    if (!job) {
+      throw new Error("Job not found");
+    }
+    const now = Date.now();
+    const stalled = job.status === "running" && now - job.updatedAt > STALLED_AFTER_MS;
+    if (job.status !== "cancelled" && !stalled) {
+      throw new Error("Only cancelled or stalled jobs can be resumed");
+    }
+    await ctx.db.patch(jobId, { status: "running", updatedAt: now });
+    await ctx.scheduler.runAfter(0, internal.rerouting.runReroutingBatch, { jobId });
+    return { success: true };
+  },
+});
+
+// Query to list recent re-routing jobs with their progress
+export const listReroutingJobs = query({
+  args: {},
+  handler: async (ctx) => {
+    const jobs = await ctx.db.query("reroutingJobs").order("desc").take(10);
+    return await Promise.all(
+      jobs.map(async (job) => ({
+        ...job,
+        ruleName: job.ruleId ? (await ctx.db.get(job.ruleId))?.name : undefined,
+        stalled: job.status === "running" && Date.now() - job.updatedAt > STALLED_AFTER_MS,
+      }))
+    );
+  },
+});
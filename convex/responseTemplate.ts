@@ -0,0 +1,277 @@
+import { Doc } from "./_generated/dataModel";
+import { bestEntity, extractEntities } from "./entityExtraction";
+
+// Response templates: plain text with placeholders, rendered per tweet.
+//
+//   {{author.name}}                 variable
+//   {{pnr | "your PNR"}}            variable with a fallback when it is empty
+//   {{#if flight}}...{{else}}...{{/if}}
+//   {{#unless pnr}}...{{/unless}}   blocks render on a non-empty (or empty) variable
+//
+// Unknown variables and unbalanced blocks are rejected when a rule is saved.
+
+export const TEMPLATE_VARIABLES = {
+  "author.name": "Display name of the tweet's author",
+  "author.firstName": "First word of the author's display name",
+  "author.username": "Author's handle, without @",
+  "rule.name": "Name of the matched routing rule",
+  pnr: "Booking reference (PNR) found in the tweet",
+  flight: "IndiGo flight number found in the tweet, e.g. 6E 2134",
+  pir: "Baggage PIR reference found in the tweet, e.g. DELBMS12345",
+  airport: "Airport code found in the tweet, e.g. DEL",
+  date: "Travel date found in the tweet, e.g. 12 Jan",
+  greeting: "Good morning / afternoon / evening in India time",
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+export type TemplateContext = Partial<Record<TemplateVariable, string>>;
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "variable"; name: TemplateVariable; fallback?: string }
+  | { type: "block"; name: TemplateVariable; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export type TemplateParseResult =
+  | { ok: true; nodes: TemplateNode[] }
+  | { ok: false; error: string };
+
+// Greetings follow India time, where IndiGo's passengers mostly are
+const GREETING_TIME_ZONE = "Asia/Kolkata";
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const VARIABLE_PATTERN = /^([A-Za-z.]+)\s*(?:\|\s*(?:"([^"]*)"|'([^']*)'))?$/;
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLES, name);
+}
+
+export function parseTemplate(template: string): TemplateParseResult {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `target` is where their children currently go
+  const stack: Array<{ node: Extract<TemplateNode, { type: "block" }>; target: TemplateNode[]; sawElse: boolean }> = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: "text", text: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const tag = match[1];
+    const blockOpen = /^#(if|unless)\s+(\S+)$/.exec(tag);
+    if (blockOpen) {
+      const name = blockOpen[2];
+      if (!isTemplateVariable(name)) {
+        return { ok: false, error: `Unknown variable "${name}" in {{#${blockOpen[1]}}}` };
+      }
+      const node = { type: "block" as const, name, negate: blockOpen[1] === "unless", then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, target: node.then, sawElse: false });
+      continue;
+    }
+
+    if (tag === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.sawElse) {
+        return { ok: false, error: "{{else}} without a matching {{#if}} or {{#unless}}" };
+      }
+      open.sawElse = true;
+      open.target = open.node.otherwise;
+      continue;
+    }
+
+    const blockClose = /^\/(if|unless)$/.exec(tag);
+    if (blockClose) {
+      const open = stack.pop();
+      const expected = open && (open.node.negate ? "unless" : "if");
+      if (expected !== blockClose[1]) {
+        return { ok: false, error: `{{/${blockClose[1]}}} without a matching {{#${blockClose[1]}}}` };
+      }
+      continue;
+    }
+
+    const variable = VARIABLE_PATTERN.exec(tag);
+    if (!variable) {
+      return { ok: false, error: `Cannot read "{{${tag}}}"` };
+    }
+    if (!isTemplateVariable(variable[1])) {
+      return { ok: false, error: `Unknown variable "${variable[1]}"` };
+    }
+    current().push({ type: "variable", name: variable[1], fallback: variable[2] ?? variable[3] });
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node;
+    return { ok: false, error: `{{#${open.negate ? "unless" : "if"} ${open.name}}} is never closed` };
+  }
+  if (lastIndex < template.length) {
+    root.push({ type: "text", text: template.slice(lastIndex) });
+  }
+  return { ok: true, nodes: root };
+}
+
+// Throw a readable error for an invalid template (used when saving rules)
+export function validateTemplate(template: string) {
+  const parsed = parseTemplate(template);
+  if (!parsed.ok) {
+    throw new Error(`Invalid response template: ${parsed.error}`);
+  }
+  return parsed.nodes;
+}
+
+// Variants need distinct keys, non-negative weights with a positive total, and valid templates
+export function validateResponseVariants(variants: Array<{ key: string; template: string; weight: number }>) {
+  if (variants.length === 0) {
+    return;
+  }
+  const keys = new Set<string>();
+  for (const variant of variants) {
+    const key = variant.key.trim();
+    if (!key) {
+      throw new Error("Every response variant needs a key");
+    }
+    if (keys.has(key)) {
+      throw new Error(`Duplicate response variant "${key}"`);
+    }
+    keys.add(key);
+    if (!(variant.weight >= 0)) {
+      throw new Error(`Response variant "${key}" needs a weight of 0 or more`);
+    }
+    try {
+      validateTemplate(variant.template);
+    } catch (error) {
+      throw new Error(`Variant "${key}": ${error instanceof Error ? error.message : "invalid template"}`);
+    }
+  }
+  if (!variants.some((variant) => variant.weight > 0)) {
+    throw new Error("At least one response variant needs a positive weight");
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.text;
+        case "variable":
+          return context[node.name] || node.fallback || "";
+        case "block": {
+          const present = !!context[node.name];
+          return renderNodes(present !== node.negate ? node.then : node.otherwise, context);
+        }
+      }
+    })
+    .join("");
+}
+
+// Render a template; empty variables can leave doubled spaces, which are collapsed.
+// Invalid templates (saved before validation existed) are sent as written.
+export function renderTemplate(template: string, context: TemplateContext) {
+  const parsed = parseTemplate(template);
+  if (!parsed.ok) {
+    return template;
+  }
+  return renderNodes(parsed.nodes, context)
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/ +([,.!?])/g, "$1")
+    .trim();
+}
+
+function greetingAt(now: number) {
+  const hour = Number(
+    new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", timeZone: GREETING_TIME_ZONE }).format(now)
+  );
+  if (hour < 12) return "Good morning";
+  if (hour < 17) return "Good afternoon";
+  return "Good evening";
+}
+
+function formatDate(isoDate: string) {
+  return new Intl.DateTimeFormat("en-IN", { day: "numeric", month: "short", timeZone: "UTC" }).format(
+    Date.parse(isoDate)
+  );
+}
+
+export function buildTemplateContext(
+  tweet: Pick<Doc<"tweets">, "text" | "authorName" | "authorUsername"> &
+    Partial<Pick<Doc<"tweets">, "extractedEntities">>,
+  rule: Pick<Doc<"routingRules">, "name">,
+  now: number
+): TemplateContext {
+  // Tweets stored before extraction existed, and the preview sample, are extracted here
+  const entities = tweet.extractedEntities ?? extractEntities(tweet.text, now);
+  const date = bestEntity(entities, "date")?.value;
+  return {
+    "author.name": tweet.authorName,
+    "author.firstName": tweet.authorName.trim().split(/\s+/)[0],
+    "author.username": tweet.authorUsername,
+    "rule.name": rule.name,
+    pnr: bestEntity(entities, "pnr")?.value,
+    flight: bestEntity(entities, "flight")?.value,
+    pir: bestEntity(entities, "pir")?.value,
+    airport: bestEntity(entities, "airport")?.value,
+    date: date && formatDate(date),
+    greeting: greetingAt(now),
+  };
+}
+
+// Pick one of a rule's response variants by weight; without variants the template is used
+export function chooseResponseVariant(
+  rule: Pick<Doc<"routingRules">, "responseTemplate" | "responseVariants">,
+  random: () => number = Math.random
+): { template: string; variantKey?: string } {
+  const variants = (rule.responseVariants ?? []).filter((variant) => variant.weight > 0);
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (variants.length === 0 || total <= 0) {
+    return { template: rule.responseTemplate };
+  }
+
+  let roll = random() * total;
+  for (const variant of variants) {
+    roll -= variant.weight;
+    if (roll < 0) {
+      return { template: variant.template, variantKey: variant.key };
+    }
+  }
+  const last = variants[variants.length - 1];
+  return { template: last.template, variantKey: last.key };
+}
+
+// Response text for a tweet routed to a rule, and the variant it came from
+export function renderResponse(
+  tweet: Pick<Doc<"tweets">, "text" | "authorName" | "authorUsername" | "extractedEntities">,
+  rule: Pick<Doc<"routingRules">, "name" | "responseTemplate" | "responseVariants">,
+  now: number
+) {
+  const { template, variantKey } = chooseResponseVariant(rule);
+  return { responseText: renderTemplate(template, buildTemplateContext(tweet, rule, now)), variantKey };
+}
+
+// Sign-off closing a response, e.g. "^Team IndiGo"
+const SIGN_OFF_PATTERN = /\s*\^[^^]*$/;
+
+// Longest reply that can be posted
+export const MAX_REPLY_LENGTH = 280;
+
+// One reply for a tweet matching several rules: each rule's response in turn, signed off once.
+// The text mixes the rules' variants, so it is flagged as merged instead of credited to one
+// variant. Null when the combined reply is too long to post.
+export function renderMergedResponse(
+  tweet: Pick<Doc<"tweets">, "text" | "authorName" | "authorUsername" | "extractedEntities">,
+  rules: Array<Pick<Doc<"routingRules">, "name" | "responseTemplate" | "responseVariants">>,
+  now: number
+) {
+  const parts = rules.map((rule) => renderResponse(tweet, rule, now));
+  const texts = [...new Set(parts.map((part) => part.responseText))];
+  const responseText = texts
+    .map((text, index) => (index < texts.length - 1 ? text.replace(SIGN_OFF_PATTERN, "") : text))
+    .join(" ");
+  if (responseText.length > MAX_REPLY_LENGTH) {
+    return null;
+  }
+  return { responseText, variantKey: undefined, merged: true };
+}
@@ -1,15 +1,47 @@
 import { v } from "convex/values";
-import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
-import { internal } from "./_generated/api";
+import { internalMutation, internalQuery, mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
-
-// Query to get all active routing rules
+import {
+  buildTemplateContext,
+  MAX_REPLY_LENGTH,
+  renderMergedResponse,
+  renderResponse,
+  renderTemplate,
+  validateResponseVariants,
+  validateTemplate,
+} from "./responseTemplate";
+import { loadActiveIncident } from "./incidents";
+import { classifyTweet, loadIntentClassifier } from "./intents";
+import { validateRuleExpression } from "./ruleExpression";
+import { buildRoutingTrace, RoutableTweet, RoutingDecision, routeTweet } from "./routingEngine";
+import { checkActiveWindows, rulesForMode, ruleSetOf, validateActiveWindows } from "./ruleSchedule";
+import { currentRuleVersionId, recordRuleVersion } from "./ruleVersions";
+import { scoreTweet } from "./tweetScoring";
+import {
+  activeWindowValidator,
+  getTweetKind,
+  ResponseVariant,
+  responseVariantValidator,
+  routingConditionsValidator,
+} from "./twitter";
+
+// Query to get all routing rules that have not been deleted
 export const getRoutingRules = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db
+    const rules = await ctx.db
       .query("routingRules")
       .collect();
+    return rules.filter((rule) => rule.deletedAt === undefined);
+  },
+});
+
+// Query to get deleted routing rules, which can be restored from their history
+export const getDeletedRoutingRules = query({
+  args: {},
+  handler: async (ctx) => {
+    const rules = await ctx.db.query("routingRules").collect();
+    return rules.filter((rule) => rule.deletedAt !== undefined);
   },
 });
 
@@ -24,26 +56,177 @@ export const getActiveRoutingRules = query({
   },
 });
 
+// Query to say which rules apply at a given time: the live rule set and each rule's active windows.
+// The dashboard passes the time so the answer moves on with the clock.
+export const getRuleAvailability = query({
+  args: {
+    now: v.number(),
+  },
+  handler: async (ctx, { now }) => {
+    const incident = await loadActiveIncident(ctx);
+    const rules = (await ctx.db.query("routingRules").collect()).filter((rule) => rule.deletedAt === undefined);
+    const liveSet = incident ? "incident" : "normal";
+    return {
+      incident,
+      rules: rules.map((rule) => {
+        const schedule = checkActiveWindows(rule.activeWindows, now);
+        const inLiveSet = ruleSetOf(rule) === liveSet;
+        const inWindow = schedule?.active ?? true;
+        return {
+          ruleId: rule._id,
+          inLiveSet,
+          inWindow,
+          windowDetail: schedule?.detail,
+          live: rule.isActive && inLiveSet && inWindow,
+        };
+      }),
+    };
+  },
+});
+
+function normalizeExpression(expression: string | undefined) {
+  const trimmed = expression?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function normalizeTerms(terms: string[]) {
+  return terms.map((term) => term.trim()).filter(Boolean);
+}
+
+function normalizeVariants(variants: ResponseVariant[]) {
+  return variants.map((variant) => ({ ...variant, key: variant.key.trim() }));
+}
+
+function normalizeIntent(intent: string | undefined) {
+  const trimmed = intent?.trim().toLowerCase();
+  return trimmed ? trimmed : undefined;
+}
+
+// A rule must be able to match something: a valid expression, at least one keyword, or an intent
+function validateMatcher(keywords: string[], expression: string | undefined, intent: string | undefined) {
+  if (expression) {
+    validateRuleExpression(expression);
+  } else if (!keywords.some((keyword) => keyword.trim()) && !intent) {
+    throw new Error("A rule needs keywords, an expression or an intent");
+  }
+}
+
+async function validateGroup(ctx: QueryCtx, groupId: Id<"ruleGroups"> | undefined) {
+  if (groupId && !(await ctx.db.get(groupId))) {
+    throw new Error("Rule group not found");
+  }
+}
+
+const ruleSetValidator = v.union(v.literal("normal"), v.literal("incident"));
+
+function validateIntentConfidence(minIntentConfidence: number | undefined) {
+  if (minIntentConfidence !== undefined && (minIntentConfidence < 0 || minIntentConfidence > 1)) {
+    throw new Error("Intent confidence must be between 0 and 1");
+  }
+}
+
+// Query to check a rule expression as it is typed
+export const validateExpression = query({
+  args: {
+    expression: v.string(),
+  },
+  handler: async (ctx, { expression }) => {
+    try {
+      validateRuleExpression(expression);
+      return { valid: true as const };
+    } catch (error) {
+      return { valid: false as const, error: error instanceof Error ? error.message : "Invalid expression" };
+    }
+  },
+});
+
+// Stands in for a real tweet when there is none to preview a template against
+const SAMPLE_TWEET = {
+  text: "@IndiGo6E my flight 6E 2134 is delayed again, PNR ABC12D. Need a refund!",
+  authorName: "Priya Sharma",
+  authorUsername: "priya_travels",
+};
+
+// Query to render a response template as it is typed, against the rule's latest tweet or a sample
+export const previewResponseTemplate = query({
+  args: {
+    responseTemplate: v.string(),
+    ruleId: v.optional(v.id("routingRules")),
+    ruleName: v.optional(v.string()),
+  },
+  handler: async (ctx, { responseTemplate, ruleId, ruleName }) => {
+    try {
+      validateTemplate(responseTemplate);
+    } catch (error) {
+      return { valid: false as const, error: error instanceof Error ? error.message : "Invalid template" };
+    }
+
+    const sampleTweet =
+      (ruleId
+        ? await ctx.db
+            .query("tweets")
+            .withIndex("by_matched_rule", (q) => q.eq("matchedRuleId", ruleId))
+            .order("desc")
+            .first()
+        : null) ?? SAMPLE_TWEET;
+    const text = renderTemplate(
+      responseTemplate,
+      buildTemplateContext(sampleTweet, { name: ruleName || "Draft rule" }, Date.now())
+    );
+    return { valid: true as const, text, length: text.length, sampleTweet: sampleTweet.text };
+  },
+});
+
 // Mutation to create a routing rule
 export const createRoutingRule = mutation({
   args: {
     name: v.string(),
     keywords: v.array(v.string()),
+    expression: v.optional(v.string()),
+    excludeKeywords: v.optional(v.array(v.string())),
+    conditions: v.optional(routingConditionsValidator),
+    intent: v.optional(v.string()),
+    minIntentConfidence: v.optional(v.number()),
+    groupId: v.optional(v.id("ruleGroups")),
+    activeWindows: v.optional(v.array(activeWindowValidator)),
+    ruleSet: v.optional(ruleSetValidator),
     priority: v.number(),
     responseTemplate: v.string(),
+    responseVariants: v.optional(v.array(responseVariantValidator)),
     isActive: v.boolean(),
   },
   handler: async (ctx, args) => {
+    const expression = normalizeExpression(args.expression);
+    const intent = normalizeIntent(args.intent);
+    validateMatcher(args.keywords, expression, intent);
+    validateIntentConfidence(args.minIntentConfidence);
+    await validateGroup(ctx, args.groupId);
+    validateActiveWindows(args.activeWindows ?? []);
+    validateTemplate(args.responseTemplate);
+    const responseVariants = normalizeVariants(args.responseVariants ?? []);
+    validateResponseVariants(responseVariants);
+
     const now = Date.now();
-    return await ctx.db.insert("routingRules", {
+    const ruleId = await ctx.db.insert("routingRules", {
       name: args.name,
       keywords: args.keywords,
+      expression,
+      excludeKeywords: normalizeTerms(args.excludeKeywords ?? []),
+      conditions: args.conditions,
+      intent,
+      minIntentConfidence: intent ? args.minIntentConfidence : undefined,
+      groupId: args.groupId,
+      activeWindows: args.activeWindows && args.activeWindows.length > 0 ? args.activeWindows : undefined,
+      ruleSet: args.ruleSet === "incident" ? "incident" : undefined,
       priority: args.priority,
       responseTemplate: args.responseTemplate,
+      responseVariants: responseVariants.length > 0 ? responseVariants : undefined,
       isActive: args.isActive,
       createdAt: now,
       updatedAt: now,
     });
+    await recordRuleVersion(ctx, ruleId, "created", null);
+    return ruleId;
   },
 });
 
@@ -53,83 +236,277 @@ export const updateRoutingRule = mutation({
     ruleId: v.id("routingRules"),
     name: v.optional(v.string()),
     keywords: v.optional(v.array(v.string())),
+    expression: v.optional(v.string()), // "" clears the expression
+    excludeKeywords: v.optional(v.array(v.string())),
+    conditions: v.optional(routingConditionsValidator),
+    intent: v.optional(v.string()), // "" clears the intent
+    minIntentConfidence: v.optional(v.number()),
+    groupId: v.optional(v.union(v.id("ruleGroups"), v.null())), // null removes the rule from its group
+    activeWindows: v.optional(v.array(activeWindowValidator)), // [] makes the rule apply at any time
+    ruleSet: v.optional(ruleSetValidator),
     priority: v.optional(v.number()),
     responseTemplate: v.optional(v.string()),
+    responseVariants: v.optional(v.array(responseVariantValidator)), // [] removes the variants
     isActive: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const { ruleId, ...updates } = args;
     const filteredUpdates: Record<string, unknown> = { updatedAt: Date.now() };
 
+    const rule = await ctx.db.get(ruleId);
+    if (!rule || rule.deletedAt !== undefined) {
+      throw new Error("Routing rule not found");
+    }
+
+    if (updates.keywords !== undefined || updates.expression !== undefined || updates.intent !== undefined) {
+      const expression =
+        updates.expression !== undefined ? normalizeExpression(updates.expression) : rule.expression;
+      const intent = updates.intent !== undefined ? normalizeIntent(updates.intent) : rule.intent;
+      validateMatcher(updates.keywords ?? rule.keywords, expression, intent);
+      filteredUpdates.expression = expression;
+      filteredUpdates.intent = intent;
+    }
+    if (updates.minIntentConfidence !== undefined) {
+      validateIntentConfidence(updates.minIntentConfidence);
+      filteredUpdates.minIntentConfidence = updates.minIntentConfidence;
+    }
+    if (updates.groupId !== undefined) {
+      await validateGroup(ctx, updates.groupId ?? undefined);
+      filteredUpdates.groupId = updates.groupId ?? undefined;
+    }
+    if (updates.activeWindows !== undefined) {
+      validateActiveWindows(updates.activeWindows);
+      filteredUpdates.activeWindows = updates.activeWindows.length > 0 ? updates.activeWindows : undefined;
+    }
+    if (updates.ruleSet !== undefined) filteredUpdates.ruleSet = updates.ruleSet === "incident" ? "incident" : undefined;
+
     if (updates.name !== undefined) filteredUpdates.name = updates.name;
     if (updates.keywords !== undefined) filteredUpdates.keywords = updates.keywords;
+    if (updates.excludeKeywords !== undefined) filteredUpdates.excludeKeywords = normalizeTerms(updates.excludeKeywords);
+    if (updates.conditions !== undefined) filteredUpdates.conditions = updates.conditions;
     if (updates.priority !== undefined) filteredUpdates.priority = updates.priority;
-    if (updates.responseTemplate !== undefined) filteredUpdates.responseTemplate = updates.responseTemplate;
+    if (updates.responseTemplate !== undefined) {
+      validateTemplate(updates.responseTemplate);
+      filteredUpdates.responseTemplate = updates.responseTemplate;
+    }
+    if (updates.responseVariants !== undefined) {
+      const responseVariants = normalizeVariants(updates.responseVariants);
+      validateResponseVariants(responseVariants);
+      filteredUpdates.responseVariants = responseVariants.length > 0 ? responseVariants : undefined;
+    }
     if (updates.isActive !== undefined) filteredUpdates.isActive = updates.isActive;
 
     await ctx.db.patch(ruleId, filteredUpdates);
+    await recordRuleVersion(ctx, ruleId, "updated", rule);
     return { success: true };
   },
 });
 
-// Mutation to delete a routing rule
+// Mutation to delete a routing rule. Rules are soft-deleted so tweets keep their history.
 export const deleteRoutingRule = mutation({
   args: {
     ruleId: v.id("routingRules"),
   },
   handler: async (ctx, { ruleId }) => {
-    await ctx.db.delete(ruleId);
+    const rule = await ctx.db.get(ruleId);
+    if (!rule || rule.deletedAt !== undefined) {
+      throw new Error("Routing rule not found");
+    }
+    const now = Date.now();
+    await ctx.db.patch(ruleId, { isActive: false, deletedAt: now, updatedAt: now });
+    await recordRuleVersion(ctx, ruleId, "deleted", rule);
     return { success: true };
   },
 });
 
-// Internal query to find matching rule for tweet text
-export const matchTweetToRule = internalQuery({
-  args: {
-    tweetText: v.string(),
+// Query to list global exclusions
+export const getGlobalExclusions = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("globalExclusions").collect();
   },
-  handler: async (ctx, { tweetText }) => {
-    const rules = await ctx.db
-      .query("routingRules")
-      .withIndex("by_active", (q) => q.eq("isActive", true))
-      .collect();
+});
 
-    const lowerText = tweetText.toLowerCase();
+// Mutation to add a global exclusion term or author
+export const createGlobalExclusion = mutation({
+  args: {
+    term: v.string(),
+    field: v.optional(v.union(v.literal("text"), v.literal("author"))),
+    category: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const term = args.field === "author" ? args.term.trim().replace(/^@/, "") : args.term.trim();
+    if (!term) {
+      throw new Error("Exclusion term is required");
+    }
+    return await ctx.db.insert("globalExclusions", {
+      term,
+      field: args.field,
+      category: args.category,
+      isActive: true,
+      createdAt: Date.now(),
+    });
+  },
+});
 
-    // Find all matching rules and return the one with highest priority
-    const matchingRules = rules.filter((rule) =>
-      rule.keywords.some((keyword) => lowerText.includes(keyword.toLowerCase()))
-    );
+// Mutation to enable or disable a global exclusion
+export const setGlobalExclusionActive = mutation({
+  args: {
+    exclusionId: v.id("globalExclusions"),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, { exclusionId, isActive }) => {
+    await ctx.db.patch(exclusionId, { isActive });
+    return { success: true };
+  },
+});
 
-    if (matchingRules.length === 0) {
-      return null;
-    }
+// Mutation to delete a global exclusion
+export const deleteGlobalExclusion = mutation({
+  args: {
+    exclusionId: v.id("globalExclusions"),
+  },
+  handler: async (ctx, { exclusionId }) => {
+    await ctx.db.delete(exclusionId);
+    return { success: true };
+  },
+});
 
-    // Sort by priority (higher priority first)
-    matchingRules.sort((a, b) => b.priority - a.priority);
-    return matchingRules[0];
+// Internal query to find matching rule for tweet text, using the stored tweet's metadata when given
+export const matchTweetToRule = internalQuery({
+  args: {
+    tweetText: v.string(),
+    tweetId: v.optional(v.id("tweets")),
+  },
+  handler: async (ctx, { tweetText, tweetId }) => {
+    const tweet = tweetId ? await ctx.db.get(tweetId) : null;
+    return (await findMatchingRule(ctx, { ...tweet, text: tweetText })).rule;
   },
 });
 
-// Helper function to find matching rule (inline to avoid circular refs)
-async function findMatchingRule(ctx: { db: any }, tweetText: string) {
-  const rules = await ctx.db
-    .query("routingRules")
-    .withIndex("by_active", (q: any) => q.eq("isActive", true))
+// Route a tweet against the active rules of the live rule set and the global exclusions.
+// Active windows are checked by the engine, so the trace shows rules that were out of hours.
+export async function findMatchingRule(ctx: QueryCtx, tweet: RoutableTweet) {
+  const incident = await loadActiveIncident(ctx);
+  const rules = rulesForMode(
+    await ctx.db
+      .query("routingRules")
+      .withIndex("by_active", (q) => q.eq("isActive", true))
+      .collect(),
+    incident !== null
+  );
+  const exclusions = await ctx.db
+    .query("globalExclusions")
+    .withIndex("by_active", (q) => q.eq("isActive", true))
     .collect();
+  const groups = await ctx.db.query("ruleGroups").collect();
 
-  const lowerText = tweetText.toLowerCase();
+  const decision = routeTweet(rules, exclusions, tweet, Date.now(), groups);
+  return incident ? { ...decision, outcome: `${decision.outcome} (incident mode: ${incident.name})` } : decision;
+}
 
-  const matchingRules = rules.filter((rule: Doc<"routingRules">) =>
-    rule.keywords.some((keyword: string) => lowerText.includes(keyword.toLowerCase()))
-  );
+// The reply a routing decision calls for: none when it escalates to a human. A merged reply
+// too long to post falls back to the winner's own, and the returned decision says so.
+export function settleDecisionResponse(
+  tweet: Doc<"tweets">,
+  decision: RoutingDecision,
+  now: number
+): { decision: RoutingDecision; response: { responseText: string; variantKey?: string; merged?: boolean } | null } {
+  const rule = decision.rule;
+  if (!rule || decision.escalation) {
+    return { decision, response: null };
+  }
+  if (decision.mergedRules.length > 1) {
+    const merged = renderMergedResponse(tweet, decision.mergedRules, now);
+    if (merged) {
+      return { decision, response: merged };
+    }
+    decision = {
+      ...decision,
+      policy: "top",
+      mergedRules: [],
+      outcome: `${decision.outcome}; the merged reply was over ${MAX_REPLY_LENGTH} characters, so only ${rule.name} replied`,
+    };
+  }
+  return { decision, response: renderResponse(tweet, rule, now) };
+}
+
+// Every matching rule and the group policy applied, stored alongside the winner
+export function decisionFields(decision: RoutingDecision) {
+  return {
+    matchedRuleIds: decision.matchedRules.map((rule) => rule._id),
+    routingPolicy: decision.policy,
+    escalationReason: decision.escalation,
+  };
+}
+
+// Why a conversation's rule can no longer take its follow-ups, or null when it still routes.
+// These are the checks routing itself applies, so a retired or off-hours rule is not reused.
+function conversationRuleUnavailable(
+  rule: Doc<"routingRules"> | null,
+  incident: Doc<"incidents"> | null,
+  now: number
+) {
+  if (!rule || rule.deletedAt !== undefined) {
+    return "was deleted";
+  }
+  if (!rule.isActive) {
+    return "is inactive";
+  }
+  const live = incident ? "incident" : "normal";
+  if (ruleSetOf(rule) !== live) {
+    return `is not in the ${live} rule set`;
+  }
+  const schedule = checkActiveWindows(rule.activeWindows, now);
+  if (schedule && !schedule.active) {
+    return `is outside its active windows (${schedule.detail})`;
+  }
+  return null;
+}
 
-  if (matchingRules.length === 0) {
-    return null;
+// The rule a follow-up joins: its conversation's, while that rule would still route today.
+// When the conversation's rule is unavailable, a note says why the tweet is routed on its own.
+export async function conversationRule(
+  ctx: QueryCtx,
+  conversation: Doc<"conversations"> | null,
+  incident: Doc<"incidents"> | null,
+  now: number
+): Promise<{ rule: Doc<"routingRules"> | null; note?: string }> {
+  const ruleId =
+    conversation && (conversation.routingStatus === "routed" || conversation.routingStatus === "responded")
+      ? conversation.matchedRuleId
+      : undefined;
+  if (!ruleId) {
+    return { rule: null };
+  }
+  const rule = await ctx.db.get(ruleId);
+  const unavailable = conversationRuleUnavailable(rule, incident, now);
+  if (!unavailable && rule) {
+    return { rule };
   }
+  return { rule: null, note: rule ? `conversation's rule ${rule.name} ${unavailable}` : "conversation's rule was deleted" };
+}
 
-  matchingRules.sort((a: Doc<"routingRules">, b: Doc<"routingRules">) => b.priority - a.priority);
-  return matchingRules[0] as Doc<"routingRules">;
+// Route a follow-up to its conversation's rule; the conversation's reply answers it
+export async function joinConversationFields(
+  ctx: MutationCtx,
+  tweet: Doc<"tweets">,
+  rule: Doc<"routingRules">,
+  now: number
+) {
+  return {
+    routingStatus: "routed",
+    matchedRuleId: rule._id,
+    matchedRuleIds: [rule._id],
+    matchedRuleVersionId: await currentRuleVersionId(ctx, rule),
+    ...scoreTweet(tweet, rule),
+    routingTrace: {
+      evaluatedAt: now,
+      outcome: `Joined its conversation, already routed to ${rule.name}`,
+      matchedRuleId: rule._id,
+      rules: [],
+    },
+  };
 }
 
 // Internal mutation to process batch routing (called from http.ts)
@@ -139,51 +516,97 @@ export const processBatchRouting = internalMutation({
   },
   handler: async (ctx, { tweetIds }): Promise<Array<{ tweetId: Id<"tweets">; success: boolean; status?: string; error?: string; matchedRule?: string }>> => {
     const results: Array<{ tweetId: Id<"tweets">; success: boolean; status?: string; error?: string; matchedRule?: string }> = [];
+    const intentModel = await loadIntentClassifier(ctx);
+    const incident = await loadActiveIncident(ctx);
 
     for (const tweetId of tweetIds) {
-      const tweet = await ctx.db.get(tweetId);
-      if (!tweet) {
+      const storedTweet = await ctx.db.get(tweetId);
+      if (!storedTweet) {
         results.push({ tweetId, success: false, error: "Tweet not found" });
         continue;
       }
 
       // Skip if already processed
-      if (tweet.routingStatus && tweet.routingStatus !== "pending") {
+      if (storedTweet.routingStatus && storedTweet.routingStatus !== "pending") {
         results.push({ tweetId, success: true, status: "already_processed" });
         continue;
       }
 
-      // Find matching rule
-      const matchingRule = await findMatchingRule(ctx, tweet.text);
+      // Predict intent first so rules can match on it
+      const tweet = await classifyTweet(ctx, storedTweet, intentModel);
+
+      // Decide once per conversation: follow-ups join the reply already queued or sent,
+      // as long as the rule that routed it would still route today
+      const conversation = tweet.threadId ? await ctx.db.get(tweet.threadId) : null;
+      const joined = await conversationRule(ctx, conversation, incident, Date.now());
+      if (joined.rule) {
+        await ctx.db.patch(tweetId, await joinConversationFields(ctx, tweet, joined.rule, Date.now()));
+        results.push({ tweetId, success: true, status: "conversation_routed" });
+        continue;
+      }
+      const conversationNote = joined.note;
+
+      // Find matching rule and the reply it calls for
+      const found = await findMatchingRule(ctx, tweet);
+      const { decision, response } = settleDecisionResponse(
+        tweet,
+        conversationNote ? { ...found, outcome: `${found.outcome} (${conversationNote})` } : found,
+        Date.now()
+      );
+      const { rule: matchingRule, exclusions } = decision;
+      const routingTrace = buildRoutingTrace(decision, Date.now());
 
       if (!matchingRule) {
-        // No matching rule - mark as skipped
+        // No matching rule (or excluded) - mark as skipped
         await ctx.db.patch(tweetId, {
           routingStatus: "skipped",
+          ...decisionFields(decision),
+          exclusionHits: exclusions,
+          routingTrace,
+          ...scoreTweet(tweet, null),
         });
-        results.push({ tweetId, success: true, status: "skipped" });
+        if (conversation && conversation.routingStatus === "pending") {
+          await ctx.db.patch(conversation._id, { routingStatus: "skipped" });
+        }
+        results.push({ tweetId, success: true, status: exclusions.length > 0 ? "excluded" : "skipped" });
         continue;
       }
 
-      // Create pending response
-      await ctx.db.insert("tweetResponses", {
-        originalTweetId: tweet.tweetId,
-        routingRuleId: matchingRule._id,
-        responseText: matchingRule.responseTemplate,
-        status: "pending",
-        createdAt: Date.now(),
-      });
+      // Create pending response, unless conflicting rules leave the reply to a human
+      const matchedRuleVersionId = await currentRuleVersionId(ctx, matchingRule);
+      if (response) {
+        await ctx.db.insert("tweetResponses", {
+          originalTweetId: tweet.tweetId,
+          threadId: tweet.threadId,
+          routingRuleId: matchingRule._id,
+          routingRuleVersionId: matchedRuleVersionId,
+          ...response,
+          status: "pending",
+          createdAt: Date.now(),
+        });
+      }
 
-      // Update tweet with routing info
+      // Update tweet and its conversation with routing info
       await ctx.db.patch(tweetId, {
         routingStatus: "routed",
         matchedRuleId: matchingRule._id,
+        matchedRuleVersionId,
+        ...decisionFields(decision),
+        exclusionHits: exclusions,
+        routingTrace,
+        ...scoreTweet(tweet, matchingRule),
       });
+      if (conversation) {
+        await ctx.db.patch(conversation._id, {
+          routingStatus: "routed",
+          matchedRuleId: matchingRule._id,
+        });
+      }
 
       results.push({
         tweetId,
         success: true,
-        status: "routed",
+        status: response ? "routed" : "escalated",
         matchedRule: matchingRule.name,
       });
     }
@@ -205,27 +628,32 @@ export const initializeDefaultRules = mutation({
     const defaultRules = [
       {
         name: "Medical Refund",
+        intent: "medical_refund",
         keywords: ["medical", "sickness", "not fit to fly", "sick", "hospital", "humanitarian", "health", "doctor", "emergency", "illness"],
+        expression: '(medical OR sick* OR "not fit to fly" OR hospital* OR humanitarian OR health OR doctor OR emergency OR illness) AND NOT "sick of" AND NOT "sick and tired"',
         priority: 10,
-        responseTemplate: "Dear passenger, we understand you're facing a medical situation. Please DM us your booking reference (PNR) and medical documents for refund assistance. ^Team IndiGo",
+        responseTemplate: "Dear {{author.firstName | \"passenger\"}}, we understand you're facing a medical situation. Please DM us your booking reference (PNR) and medical documents for refund assistance. ^Team IndiGo",
         isActive: true,
         createdAt: now,
         updatedAt: now,
       },
       {
         name: "Baggage Issue",
+        intent: "baggage",
         keywords: ["baggage", "luggage", "lost bag", "damaged bag", "missing luggage"],
         priority: 8,
-        responseTemplate: "Dear passenger, we apologize for the baggage inconvenience. Please share your PNR and file reference via DM. ^Team IndiGo",
+        responseTemplate: "Dear {{author.firstName | \"passenger\"}}, we apologize for the baggage inconvenience. Please share {{#if pnr}}your file reference{{else}}your PNR and file reference{{/if}} via DM. ^Team IndiGo",
         isActive: true,
         createdAt: now,
         updatedAt: now,
       },
       {
         name: "Flight Delay",
+        intent: "flight_delay",
         keywords: ["delay", "cancelled", "late", "missed connection", "rescheduled"],
+        expression: 'delay* OR cancelled OR late OR "missed connection" OR rescheduled',
         priority: 6,
-        responseTemplate: "Dear passenger, we apologize for the delay. Please share your flight number and PNR via DM. ^Team IndiGo",
+        responseTemplate: "{{greeting}} {{author.firstName}}, we apologize for the delay{{#if flight}} of {{flight}}{{/if}}. {{#if pnr}}We're looking into PNR {{pnr}} and will DM you shortly.{{else}}Please share your flight number and PNR via DM.{{/if}} ^Team IndiGo",
         isActive: true,
         createdAt: now,
         updatedAt: now,
@@ -233,19 +661,29 @@ export const initializeDefaultRules = mutation({
     ];
 
     for (const rule of defaultRules) {
-      await ctx.db.insert("routingRules", rule);
+      const ruleId = await ctx.db.insert("routingRules", rule);
+      await recordRuleVersion(ctx, ruleId, "created", null);
     }
 
     return { success: true, message: "Default rules initialized" };
   },
 });
 
+// Engagement growth since first sighting that marks a tweet as trending
+const TRENDING_ENGAGEMENT_GROWTH = 50;
+
+function totalEngagement(metrics: { likeCount: number; retweetCount: number; replyCount: number }) {
+  return metrics.likeCount + metrics.retweetCount + metrics.replyCount;
+}
+
 // Query to get tweets with their routing status
 export const getTweetsWithRouting = query({
   args: {
     status: v.optional(v.string()),
+    groupByConversation: v.optional(v.boolean()),
+    sortBy: v.optional(v.union(v.literal("newest"), v.literal("priority"))),
   },
-  handler: async (ctx, { status }) => {
+  handler: async (ctx, { status, groupByConversation, sortBy }) => {
     let tweets;
     if (status) {
       tweets = await ctx.db
@@ -260,6 +698,17 @@ export const getTweetsWithRouting = query({
         .collect();
     }
 
+    // Keep one card per conversation: the most recent tweet stands in for its thread
+    if (groupByConversation) {
+      const seenThreads = new Set<string>();
+      tweets = tweets.filter((tweet) => {
+        if (!tweet.threadId) return true;
+        if (seenThreads.has(tweet.threadId)) return false;
+        seenThreads.add(tweet.threadId);
+        return true;
+      });
+    }
+
     // Enrich with matched rule info
     const enrichedTweets = await Promise.all(
       tweets.map(async (tweet) => {
@@ -267,17 +716,72 @@ export const getTweetsWithRouting = query({
         if (tweet.matchedRuleId) {
           matchedRule = await ctx.db.get(tweet.matchedRuleId);
         }
+        const matchedVersion = tweet.matchedRuleVersionId ? await ctx.db.get(tweet.matchedRuleVersionId) : null;
 
         // Get any pending response
-        const pendingResponse = await ctx.db
-          .query("tweetResponses")
-          .withIndex("by_original_tweet", (q) => q.eq("originalTweetId", tweet.tweetId))
+        const pendingResponse =
+          (await ctx.db
+            .query("tweetResponses")
+            .withIndex("by_original_tweet", (q) => q.eq("originalTweetId", tweet.tweetId))
+            .first()) ??
+          (tweet.threadId
+            ? await ctx.db
+                .query("tweetResponses")
+                .withIndex("by_thread", (q) => q.eq("threadId", tweet.threadId))
+                .first()
+            : null);
+
+        const conversation = tweet.threadId ? await ctx.db.get(tweet.threadId) : null;
+
+        // Name the rules whose exclude keywords stopped them
+        const exclusions = await Promise.all(
+          (tweet.exclusionHits ?? []).map(async (hit) => ({
+            ...hit,
+            ruleName: hit.ruleId ? (await ctx.db.get(hit.ruleId))?.name : undefined,
+          }))
+        );
+
+        // Name the other rules that matched, best first
+        const alsoMatched = (
+          await Promise.all(
+            (tweet.matchedRuleIds ?? [])
+              .filter((ruleId) => ruleId !== tweet.matchedRuleId)
+              .map(async (ruleId) => (await ctx.db.get(ruleId))?.name)
+          )
+        ).filter((name): name is string => name !== undefined);
+
+        // Compare current engagement with the first snapshot
+        const firstSnapshot = await ctx.db
+          .query("tweetMetricSnapshots")
+          .withIndex("by_tweet", (q) => q.eq("tweetId", tweet._id))
           .first();
+        const engagementGrowth = firstSnapshot
+          ? totalEngagement(tweet) - totalEngagement(firstSnapshot)
+          : 0;
+
+        // Tweets stored before scoring existed are scored on the fly
+        const scores =
+          tweet.queuePriority !== undefined && tweet.priorityBreakdown
+            ? { queuePriority: tweet.queuePriority, priorityBreakdown: tweet.priorityBreakdown }
+            : scoreTweet(tweet, matchedRule);
 
         return {
           ...tweet,
+          ...scores,
+          kind: getTweetKind(tweet),
+          threadTweetCount: conversation?.tweetCount ?? 1,
+          engagementGrowth,
+          isTrending: engagementGrowth >= TRENDING_ENGAGEMENT_GROWTH,
+          exclusions,
+          alsoMatched,
           matchedRule: matchedRule
-            ? { name: matchedRule.name, template: matchedRule.responseTemplate }
+            ? {
+                name: matchedRule.name,
+                template: matchedRule.responseTemplate,
+                version: matchedVersion?.version,
+                isCurrentVersion: !matchedVersion || matchedVersion._id === matchedRule.currentVersionId,
+                isDeleted: matchedRule.deletedAt !== undefined,
+              }
             : null,
           pendingResponse: pendingResponse
             ? { _id: pendingResponse._id, status: pendingResponse.status, text: pendingResponse.responseText }
@@ -286,6 +790,10 @@ export const getTweetsWithRouting = query({
       })
     );
 
+    // Highest queue priority first; equal priorities stay newest first
+    if (sortBy === "priority") {
+      enrichedTweets.sort((a, b) => b.queuePriority - a.queuePriority);
+    }
     return enrichedTweets;
   },
 });
@@ -0,0 +1,422 @@
+import { Doc, Id } from "./_generated/dataModel";
+import { getTweetKind, RoutingConditions } from "./twitter";
+import { bestEntity, extractEntities } from "./entityExtraction";
+import {
+  evaluateExpression,
+  ExpressionMatch,
+  ExpressionNode,
+  keywordsExpression,
+  parseRuleExpression,
+  substringKeywordsExpression,
+  TermHit,
+} from "./ruleExpression";
+import { checkActiveWindows } from "./ruleSchedule";
+
+// Pure rule evaluation shared by routing, the matcher query and previews
+export type RoutingRule = Doc<"routingRules">;
+// A rule as the engine sees it: saved, or a simulator draft that has no id yet
+export type EvaluableRule = Omit<RoutingRule, "_id"> & { _id?: Id<"routingRules"> };
+export type GlobalExclusion = Pick<Doc<"globalExclusions">, "term" | "category" | "field">;
+export type RuleGroup = Pick<Doc<"ruleGroups">, "_id" | "name" | "policy" | "escalateAtPriority">;
+
+// What happens when several rules of the winner's group match: "top" keeps the winner,
+// "merge" combines the group's responses, "escalate" hands conflicts to a human
+export type RoutingPolicy = "top" | "merge" | "escalate";
+
+// Priority from which two conflicting rules in an escalating group need a human
+export const DEFAULT_ESCALATE_AT_PRIORITY = 7;
+
+// The parts of a tweet rules can look at; metadata is absent when only text is known
+export type RoutableTweet = Pick<Doc<"tweets">, "text"> &
+  Partial<
+    Pick<
+      Doc<"tweets">,
+      | "authorUsername"
+      | "authorFollowersCount"
+      | "authorVerified"
+      | "ruleTag"
+      | "likeCount"
+      | "tweetCreatedAt"
+      | "quotedTweetId"
+      | "inReplyToId"
+      | "mentionedUsernames"
+      | "extractedEntities"
+      | "intent"
+      | "intentConfidence"
+    >
+  >;
+
+// Outcome of one author or metadata condition
+export type ConditionCheck = {
+  condition: string;
+  passed: boolean;
+  detail: string;
+};
+
+// Which exclusion stopped a tweet, stored on the tweet for tuning the lists
+export type ExclusionHit = {
+  scope: "global" | "rule";
+  term: string;
+  text: string;
+  category?: string;
+  ruleId?: Id<"routingRules">;
+};
+
+export type RuleEvaluation<R extends EvaluableRule = RoutingRule> = ExpressionMatch & {
+  rule: R;
+  conditions: ConditionCheck[];
+  // Breaks ties between matching rules of equal priority
+  score: number;
+  // Set when the rule's terms matched but one of its exclude keywords did too
+  exclusion?: ExclusionHit;
+  // The tweet's predicted intent is the rule's, with enough confidence
+  intentMatched?: boolean;
+};
+
+export type RoutingDecision<R extends EvaluableRule = RoutingRule> = {
+  rule: R | null;
+  // Every matching rule, best first
+  matchedRules: R[];
+  policy: RoutingPolicy;
+  // Rules whose responses are combined, winner first (policy "merge")
+  mergedRules: R[];
+  // Why the tweet needs a human instead of an automatic reply (policy "escalate")
+  escalation?: string;
+  evaluations: RuleEvaluation<R>[];
+  exclusions: ExclusionHit[];
+  // Why the winning rule won, or why nothing did
+  outcome: string;
+  intent?: { label: string; confidence: number };
+};
+
+// Explanation of a routing decision, stored on the tweet for the inbox
+export type RoutingTrace = {
+  evaluatedAt: number;
+  outcome: string;
+  matchedRuleId?: Id<"routingRules">;
+  intent?: { label: string; confidence: number };
+  rules: Array<{
+    ruleId: Id<"routingRules">;
+    ruleName: string;
+    priority: number;
+    matched: boolean;
+    score: number;
+    hits: TermHit[];
+    conditions: ConditionCheck[];
+    excludedBy?: string;
+    intentMatched?: boolean;
+  }>;
+};
+
+// Confidence a predicted intent needs to match a rule that doesn't set its own
+export const DEFAULT_MIN_INTENT_CONFIDENCE = 0.6;
+
+// A rule's expression replaces its keyword list when set
+export function ruleMatcher(rule: Pick<RoutingRule, "name" | "keywords" | "expression">): ExpressionNode | null {
+  if (!rule.expression?.trim()) {
+    return substringKeywordsExpression(rule.keywords);
+  }
+
+  // Expressions are validated on save, so this only trips on rules saved before a parser change
+  const parsed = parseRuleExpression(rule.expression);
+  if (!parsed.ok) {
+    console.error(`Rule "${rule.name}" has an invalid expression: ${parsed.error}`);
+    return null;
+  }
+  return parsed.expression;
+}
+
+// First of the exclusion keywords found in the text, as whole words or phrases
+function findKeyword(keywords: string[], text: string) {
+  return evaluateExpression(keywordsExpression(keywords), text).hits[0] ?? null;
+}
+
+function normalizeUsername(username: string) {
+  return username.trim().replace(/^@/, "").toLowerCase();
+}
+
+// Check a rule's author and metadata conditions; missing tweet data fails a condition
+export function evaluateConditions(
+  conditions: RoutingConditions | undefined,
+  tweet: RoutableTweet,
+  now: number
+): ConditionCheck[] {
+  if (!conditions) {
+    return [];
+  }
+
+  const checks: ConditionCheck[] = [];
+  const username = tweet.authorUsername ? normalizeUsername(tweet.authorUsername) : undefined;
+
+  if (conditions.authorAllowList && conditions.authorAllowList.length > 0) {
+    const allowed = conditions.authorAllowList.map(normalizeUsername);
+    checks.push({
+      condition: "authorAllowList",
+      passed: !!username && allowed.includes(username),
+      detail: `@${username ?? "unknown"} ${username && allowed.includes(username) ? "is" : "is not"} on the allow list`,
+    });
+  }
+  if (conditions.authorDenyList && conditions.authorDenyList.length > 0) {
+    const denied = conditions.authorDenyList.map(normalizeUsername);
+    checks.push({
+      condition: "authorDenyList",
+      passed: !username || !denied.includes(username),
+      detail: `@${username ?? "unknown"} ${username && denied.includes(username) ? "is" : "is not"} on the deny list`,
+    });
+  }
+  if (conditions.minFollowers !== undefined) {
+    const followers = tweet.authorFollowersCount;
+    checks.push({
+      condition: "minFollowers",
+      passed: followers !== undefined && followers >= conditions.minFollowers,
+      detail: `${followers ?? "unknown"} followers (needs ${conditions.minFollowers})`,
+    });
+  }
+  if (conditions.verifiedOnly) {
+    checks.push({
+      condition: "verifiedOnly",
+      passed: tweet.authorVerified === true,
+      detail: tweet.authorVerified ? "author is verified" : "author is not verified",
+    });
+  }
+  if (conditions.ruleTags && conditions.ruleTags.length > 0) {
+    checks.push({
+      condition: "ruleTags",
+      passed: tweet.ruleTag !== undefined && conditions.ruleTags.includes(tweet.ruleTag),
+      detail: `rule tag "${tweet.ruleTag ?? ""}" (needs one of ${conditions.ruleTags.join(", ")})`,
+    });
+  }
+  if (conditions.minLikes !== undefined) {
+    checks.push({
+      condition: "minLikes",
+      passed: tweet.likeCount !== undefined && tweet.likeCount >= conditions.minLikes,
+      detail: `${tweet.likeCount ?? "unknown"} likes (needs ${conditions.minLikes})`,
+    });
+  }
+  if (conditions.maxAgeMinutes !== undefined) {
+    const createdAt = tweet.tweetCreatedAt ? Date.parse(tweet.tweetCreatedAt) : NaN;
+    const ageMinutes = Number.isNaN(createdAt) ? undefined : Math.floor((now - createdAt) / 60_000);
+    checks.push({
+      condition: "maxAgeMinutes",
+      passed: ageMinutes !== undefined && ageMinutes <= conditions.maxAgeMinutes,
+      detail: `${ageMinutes ?? "unknown"} minutes old (max ${conditions.maxAgeMinutes})`,
+    });
+  }
+  if (conditions.tweetKinds && conditions.tweetKinds.length > 0) {
+    const kind = getTweetKind(tweet);
+    checks.push({
+      condition: "tweetKinds",
+      passed: conditions.tweetKinds.includes(kind),
+      detail: `${kind} tweet (needs one of ${conditions.tweetKinds.join(", ")})`,
+    });
+  }
+  if (conditions.requiredEntities && conditions.requiredEntities.length > 0) {
+    // Tweets stored before extraction existed, and bare text, are extracted on the fly
+    const entities = tweet.extractedEntities ?? extractEntities(tweet.text, now);
+    const minConfidence = conditions.minEntityConfidence ?? 0;
+    for (const type of conditions.requiredEntities) {
+      const entity = bestEntity(entities, type, minConfidence);
+      checks.push({
+        condition: `entity:${type}`,
+        passed: entity !== undefined,
+        detail: entity
+          ? `${type} ${entity.value} (${Math.round(entity.confidence * 100)}% confident)`
+          : `no ${type} found${minConfidence > 0 ? ` at ${Math.round(minConfidence * 100)}% confidence` : ""}`,
+      });
+    }
+  }
+
+  return checks;
+}
+
+// Distinct terms that hit plus conditions that passed, plus one for a matching intent
+function ruleScore(hits: TermHit[], conditions: ConditionCheck[], intentMatched: boolean) {
+  return (
+    new Set(hits.map((hit) => hit.term)).size +
+    conditions.filter((check) => check.passed).length +
+    (intentMatched ? 1 : 0)
+  );
+}
+
+function matchesIntent(rule: EvaluableRule, tweet: RoutableTweet) {
+  if (!rule.intent || tweet.intent !== rule.intent || tweet.intentConfidence === undefined) {
+    return false;
+  }
+  return tweet.intentConfidence >= (rule.minIntentConfidence ?? DEFAULT_MIN_INTENT_CONFIDENCE);
+}
+
+export function evaluateRule<R extends EvaluableRule>(rule: R, tweet: RoutableTweet, now: number): RuleEvaluation<R> {
+  // Outside its active windows a rule fails like a condition, so the trace says why
+  const windowCheck = checkActiveWindows(rule.activeWindows, now);
+  const conditions = [
+    ...evaluateConditions(rule.conditions, tweet, now),
+    ...(windowCheck ? [{ condition: "activeWindow", passed: windowCheck.active, detail: windowCheck.detail }] : []),
+  ];
+  const matcher = ruleMatcher(rule);
+  if (!matcher) {
+    return { rule, matched: false, hits: [], conditions, score: 0 };
+  }
+
+  // Intent matches the rule as well as its keywords or expression
+  const result = evaluateExpression(matcher, tweet.text);
+  const intentMatched = matchesIntent(rule, tweet);
+  const matched = result.matched || intentMatched;
+  const conditionsPassed = conditions.every((check) => check.passed);
+  const score = ruleScore(result.hits, conditions, intentMatched);
+
+  if (matched && rule.excludeKeywords && rule.excludeKeywords.length > 0) {
+    const hit = findKeyword(rule.excludeKeywords, tweet.text);
+    if (hit) {
+      return {
+        rule,
+        matched: false,
+        hits: result.hits,
+        conditions,
+        score,
+        intentMatched,
+        exclusion: { scope: "rule", term: hit.term, text: hit.text, ruleId: rule._id },
+      };
+    }
+  }
+  return { rule, matched: matched && conditionsPassed, hits: result.hits, conditions, score, intentMatched };
+}
+
+// Global exclusion present in the tweet, if any: text terms (competitor, profanity,
+// spam, ...) or author usernames (e.g. our own support account)
+export function findGlobalExclusion(exclusions: GlobalExclusion[], tweet: RoutableTweet): ExclusionHit | null {
+  const username = tweet.authorUsername ? normalizeUsername(tweet.authorUsername) : undefined;
+
+  for (const exclusion of exclusions) {
+    if (exclusion.field === "author") {
+      if (username && normalizeUsername(exclusion.term) === username) {
+        return { scope: "global", term: exclusion.term, text: `@${tweet.authorUsername}`, category: exclusion.category };
+      }
+      continue;
+    }
+
+    const hit = findKeyword([exclusion.term], tweet.text);
+    if (hit) {
+      return { scope: "global", term: hit.term, text: hit.text, category: exclusion.category };
+    }
+  }
+  return null;
+}
+
+// Explain how the winner was picked from the matching rules, best first
+function describeOutcome(matches: RuleEvaluation<EvaluableRule>[]) {
+  const [winner, runnerUp] = matches;
+  if (!winner) {
+    return "No active rule matched";
+  }
+  if (!runnerUp) {
+    return `Only matching rule: ${winner.rule.name}`;
+  }
+  const others = `${matches.length - 1} other matching rule${matches.length > 2 ? "s" : ""}`;
+  if (winner.rule.priority > runnerUp.rule.priority) {
+    return `${winner.rule.name} won on priority ${winner.rule.priority} over ${others}`;
+  }
+  if (winner.score > runnerUp.score) {
+    return `${winner.rule.name} tied ${runnerUp.rule.name} on priority ${winner.rule.priority} and won on score ${winner.score} vs ${runnerUp.score}`;
+  }
+  return `${winner.rule.name} tied ${runnerUp.rule.name} on priority and score; the older rule won`;
+}
+
+// Apply the winner's group policy to the matching rules of that group. Rules without a
+// group, and matches outside the winner's group, only ever compete for the top spot.
+function applyGroupPolicy<R extends EvaluableRule>(
+  matchedRules: R[],
+  groups: RuleGroup[]
+): { policy: RoutingPolicy; mergedRules: R[]; escalation?: string; note?: string } {
+  const [winner] = matchedRules;
+  const group = winner?.groupId ? groups.find((candidate) => candidate._id === winner.groupId) : undefined;
+  if (!group) {
+    return { policy: "top", mergedRules: [] };
+  }
+
+  const policy = group.policy;
+  const peers = matchedRules.filter((rule) => rule.groupId === group._id);
+  if (policy === "merge" && peers.length > 1) {
+    return { policy, mergedRules: peers, note: `merged with ${peers.slice(1).map((rule) => rule.name).join(", ")}` };
+  }
+  if (policy === "escalate") {
+    const threshold = group.escalateAtPriority ?? DEFAULT_ESCALATE_AT_PRIORITY;
+    const conflicting = peers.filter((rule) => rule.priority >= threshold);
+    if (conflicting.length > 1) {
+      const escalation = `${conflicting.map((rule) => rule.name).join(" and ")} conflict in ${group.name} (priority ${threshold}+)`;
+      return { policy, mergedRules: [], escalation, note: `escalated: ${escalation}` };
+    }
+  }
+  return { policy, mergedRules: [] };
+}
+
+// Decide which rule, if any, routes the tweet, and which exclusions were involved
+export function routeTweet<R extends EvaluableRule = RoutingRule>(
+  rules: R[],
+  globalExclusions: GlobalExclusion[],
+  tweet: RoutableTweet,
+  now: number,
+  groups: RuleGroup[] = []
+): RoutingDecision<R> {
+  const intent =
+    tweet.intent && tweet.intentConfidence !== undefined
+      ? { label: tweet.intent, confidence: tweet.intentConfidence }
+      : undefined;
+
+  const globalHit = findGlobalExclusion(globalExclusions, tweet);
+  if (globalHit) {
+    const label = globalHit.category ? `global ${globalHit.category} exclusion` : "global exclusion";
+    return {
+      rule: null,
+      matchedRules: [],
+      policy: "top",
+      mergedRules: [],
+      evaluations: [],
+      exclusions: [globalHit],
+      outcome: `Excluded by ${label} "${globalHit.term}"`,
+      intent,
+    };
+  }
+
+  // Rules arrive in creation order, so the stable sort leaves the older rule first on a full tie
+  const evaluations = rules.map((rule) => evaluateRule(rule, tweet, now));
+  const exclusions = evaluations.flatMap((evaluation) => (evaluation.exclusion ? [evaluation.exclusion] : []));
+  const matches = evaluations
+    .filter((evaluation) => evaluation.matched)
+    .sort((a, b) => b.rule.priority - a.rule.priority || b.score - a.score);
+
+  const matchedRules = matches.map((match) => match.rule);
+  const { policy, mergedRules, escalation, note } = applyGroupPolicy(matchedRules, groups);
+  const outcome = describeOutcome(matches);
+
+  return {
+    rule: matchedRules[0] ?? null,
+    matchedRules,
+    policy,
+    mergedRules,
+    escalation,
+    evaluations,
+    exclusions,
+    outcome: note ? `${outcome}; ${note}` : outcome,
+    intent,
+  };
+}
+
+export function buildRoutingTrace(decision: RoutingDecision, evaluatedAt: number): RoutingTrace {
+  return {
+    evaluatedAt,
+    outcome: decision.outcome,
+    matchedRuleId: decision.rule?._id,
+    intent: decision.intent,
+    rules: decision.evaluations.map((evaluation) => ({
+      ruleId: evaluation.rule._id,
+      ruleName: evaluation.rule.name,
+      priority: evaluation.rule.priority,
+      matched: evaluation.matched,
+      score: evaluation.score,
+      hits: evaluation.hits,
+      conditions: evaluation.conditions,
+      excludedBy: evaluation.exclusion?.term,
+      intentMatched: evaluation.intentMatched || undefined,
+    })),
+  };
+}
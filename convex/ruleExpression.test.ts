@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { evaluateExpression, parseRuleExpression, substringKeywordsExpression } from "./ruleExpression";
+
+function matches(expression: string, text: string) {
+  const parsed = parseRuleExpression(expression);
+  if (!parsed.ok) throw new Error(parsed.error);
+  return evaluateExpression(parsed.expression, text).matched;
+}
+
+describe("substringKeywordsExpression", () => {
+  it("matches keyword lists as case-insensitive substrings", () => {
+    const keywords = substringKeywordsExpression(["delay", "missed connection", " "]);
+
+    expect(evaluateExpression(keywords, "Flight DELAYED again").hits).toEqual([
+      { term: "delay", index: 7, text: "DELAY" },
+    ]);
+    expect(evaluateExpression(keywords, "I missed connection at BOM").matched).toBe(true);
+    expect(evaluateExpression(keywords, "All on time").matched).toBe(false);
+  });
+});
+
+describe("parseRuleExpression", () => {
+  it("matches expression words whole and prefixes with *", () => {
+    expect(matches("delay", "Flight delayed")).toBe(false);
+    expect(matches("delay*", "Flight delayed")).toBe(true);
+    expect(matches('(sick OR hospital) AND NOT "sick of"', "Mother is sick, needs a wheelchair")).toBe(true);
+    expect(matches('(sick OR hospital) AND NOT "sick of"', "sick of these delays")).toBe(false);
+  });
+
+  it("runs regular expressions that cannot backtrack exponentially", () => {
+    expect(matches("/pnr\\s*[a-z0-9]{6}/", "PNR X7K2QP")).toBe(true);
+    expect(matches("/(?:6e|indigo)\\s?\\d{3,4}/", "6E 2176 is late")).toBe(true);
+    expect(matches("/(flight )?delayed/", "delayed")).toBe(true);
+    expect(matches("/[(+*]+x/", "(+x")).toBe(true);
+  });
+
+  it.each([
+    ["/(a+)+$/", "Repeating a group"],
+    ["/(.*a){20}/", "Repeating a group"],
+    ["/(delay|late)+/", "Repeating a group"],
+    ["/((ab)*c)*/", "Repeating a group"],
+    ["/(\\w)\\1/", "Backreferences"],
+    [`/${"a".repeat(201)}/`, "longer than 200"],
+  ])("refuses %s", (expression, error) => {
+    const parsed = parseRuleExpression(expression);
+    expect(parsed.ok).toBe(false);
+    expect(!parsed.ok && parsed.error).toContain(error);
+  });
+});
@@ -0,0 +1,442 @@
+// Small expression language for routing rules.
+//
+//   sick                  whole word, case-insensitive ("late" does not match "chocolate")
+//   delay*                word prefix ("delay", "delayed", "delays")
+//   "not fit to fly"      exact phrase, whole words
+//   "lost bag"~3          every word of the phrase within 3 words of each other, any order
+//   /pnr\s*[a-z0-9]{6}/   regular expression (case-insensitive unless flags are given)
+//   NOT, AND, OR, ( )     operators (upper case); adjacent terms are ANDed
+//
+// Precedence is NOT, then AND, then OR, e.g. `(sick OR hospital) AND NOT "sick of"`.
+//
+// Regular expressions run against every tweet, so patterns that can backtrack exponentially
+// (a repeated group holding another repetition or an alternation, backreferences) are refused.
+//
+// A rule's plain keyword list keeps its original substring matching ("delay" matches
+// "delayed"); only expressions match whole words.
+
+export type ExpressionTerm =
+  | { kind: "word"; source: string; word: string }
+  | { kind: "phrase"; source: string; words: string[] }
+  | { kind: "proximity"; source: string; words: string[]; distance: number }
+  | { kind: "regex"; source: string; pattern: string; flags: string }
+  | { kind: "substring"; source: string; value: string };
+
+export type ExpressionNode =
+  | { type: "term"; term: ExpressionTerm }
+  | { type: "not"; child: ExpressionNode }
+  | { type: "and"; children: ExpressionNode[] }
+  | { type: "or"; children: ExpressionNode[] };
+
+export type ExpressionParseResult =
+  | { ok: true; expression: ExpressionNode }
+  | { ok: false; error: string; position: number };
+
+// Where a term matched in the text
+export type TermHit = {
+  term: string;
+  index: number;
+  text: string;
+};
+
+export type ExpressionMatch = {
+  matched: boolean;
+  // Positive terms that matched (terms under NOT never contribute hits)
+  hits: TermHit[];
+};
+
+type Token =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not"; position: number }
+  | { type: "term"; term: ExpressionTerm; position: number };
+
+class ExpressionSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+const WORD_CHAR = "[\\p{L}\\p{N}_]";
+const MAX_REGEX_LENGTH = 200;
+const OPERATORS: Record<string, "and" | "or" | "not"> = { AND: "and", OR: "or", NOT: "not" };
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function splitWords(value: string) {
+  return value.trim().toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Regex source for one word; a trailing * makes it a prefix
+function wordPattern(word: string) {
+  return word.endsWith("*")
+    ? `${escapeRegex(word.slice(0, -1))}${WORD_CHAR}*`
+    : escapeRegex(word);
+}
+
+// Whole-word regex for a word or phrase
+function phraseRegex(words: string[]) {
+  return new RegExp(`(?<!${WORD_CHAR})${words.map(wordPattern).join("\\s+")}(?!${WORD_CHAR})`, "iu");
+}
+
+// Why a pattern could take exponential time on some input, or null when it is safe to run.
+// Conservative: a group repeated by *, + or {} must not contain a repetition or an alternation.
+function unsafeRegexReason(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return `Regular expression is longer than ${MAX_REGEX_LENGTH} characters`;
+  }
+
+  // Per open group: whether it holds a repetition or an alternation
+  const groups: boolean[] = [];
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) {
+        return "Backreferences are not allowed in regular expressions";
+      }
+      i += 2;
+    } else if (char === "[") {
+      // Skip the character class; quantifier characters inside it are literal
+      i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        i += pattern[i] === "\\" ? 2 : 1;
+      }
+      i++;
+    } else if (char === "(") {
+      groups.push(false);
+      i++;
+      if (pattern[i] === "?") {
+        i += pattern[i + 1] === "<" && /[=!]/.test(pattern[i + 2] ?? "") ? 3 : 2;
+      }
+    } else if (char === ")") {
+      const risky = groups.pop() ?? false;
+      const next = pattern[i + 1];
+      const repeated = next === "*" || next === "+" || next === "{";
+      if (repeated && risky) {
+        return "Repeating a group that itself repeats or alternates can take exponential time";
+      }
+      if (groups.length > 0 && (risky || repeated)) {
+        groups[groups.length - 1] = true;
+      }
+      i++;
+    } else {
+      if ((char === "*" || char === "+" || char === "{" || char === "|") && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+      i++;
+    }
+  }
+  return null;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen", position: start });
+      i++;
+    } else if (char === '"') {
+      const end = source.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new ExpressionSyntaxError("Unterminated phrase", start);
+      }
+      const words = splitWords(source.slice(i + 1, end));
+      if (words.length === 0) {
+        throw new ExpressionSyntaxError("Empty phrase", start);
+      }
+      i = end + 1;
+
+      const proximity = /^~(\d+)/.exec(source.slice(i));
+      if (proximity) {
+        i += proximity[0].length;
+        if (words.length < 2) {
+          throw new ExpressionSyntaxError("Proximity needs at least two words", start);
+        }
+        tokens.push({
+          type: "term",
+          term: { kind: "proximity", source: source.slice(start, i), words, distance: Number(proximity[1]) },
+          position: start,
+        });
+      } else {
+        tokens.push({ type: "term", term: { kind: "phrase", source: source.slice(start, i), words }, position: start });
+      }
+    } else if (char === "/") {
+      let end = i + 1;
+      while (end < source.length && source[end] !== "/") {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      if (end >= source.length) {
+        throw new ExpressionSyntaxError("Unterminated regular expression", start);
+      }
+      const pattern = source.slice(i + 1, end);
+      const flags = /^[a-z]*/.exec(source.slice(end + 1))![0];
+      i = end + 1 + flags.length;
+
+      if (!pattern) {
+        throw new ExpressionSyntaxError("Empty regular expression", start);
+      }
+      if (/[gy]/.test(flags)) {
+        throw new ExpressionSyntaxError("Regular expression flags g and y are not allowed", start);
+      }
+      try {
+        new RegExp(pattern, flags || "i");
+      } catch (error) {
+        throw new ExpressionSyntaxError(
+          error instanceof Error ? error.message : "Invalid regular expression",
+          start
+        );
+      }
+      const unsafe = unsafeRegexReason(pattern);
+      if (unsafe) {
+        throw new ExpressionSyntaxError(unsafe, start);
+      }
+      tokens.push({
+        type: "term",
+        term: { kind: "regex", source: source.slice(start, i), pattern, flags: flags || "i" },
+        position: start,
+      });
+    } else {
+      while (i < source.length && !/[\s()"]/.test(source[i])) {
+        i++;
+      }
+      const word = source.slice(start, i);
+      const operator = OPERATORS[word];
+      if (operator) {
+        tokens.push({ type: operator, position: start });
+      } else if (word.replace(/\*$/, "").length === 0) {
+        throw new ExpressionSyntaxError("Wildcard needs a prefix", start);
+      } else if (word.slice(0, -1).includes("*")) {
+        throw new ExpressionSyntaxError("Wildcard is only allowed at the end of a word", start);
+      } else {
+        tokens.push({ type: "term", term: { kind: "word", source: word, word: word.toLowerCase() }, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// Recursive-descent parser over the token list
+function parseTokens(tokens: Token[], sourceLength: number): ExpressionNode {
+  let index = 0;
+  const peek = () => tokens[index];
+  const positionOf = (token: Token | undefined) => token?.position ?? sourceLength;
+
+  function parseOr(): ExpressionNode {
+    const children = [parseAnd()];
+    while (peek()?.type === "or") {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  function parseAnd(): ExpressionNode {
+    const children = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (next?.type === "and") {
+        index++;
+        children.push(parseUnary());
+      } else if (next && (next.type === "term" || next.type === "not" || next.type === "lparen")) {
+        children.push(parseUnary());
+      } else {
+        break;
+      }
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  function parseUnary(): ExpressionNode {
+    if (peek()?.type === "not") {
+      index++;
+      return { type: "not", child: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): ExpressionNode {
+    const token = peek();
+    if (!token) {
+      throw new ExpressionSyntaxError("Unexpected end of expression", sourceLength);
+    }
+    if (token.type === "lparen") {
+      index++;
+      const node = parseOr();
+      if (peek()?.type !== "rparen") {
+        throw new ExpressionSyntaxError("Missing closing parenthesis", positionOf(peek()));
+      }
+      index++;
+      return node;
+    }
+    if (token.type === "term") {
+      index++;
+      return { type: "term", term: token.term };
+    }
+    throw new ExpressionSyntaxError(`Unexpected ${token.type === "rparen" ? ")" : token.type.toUpperCase()}`, token.position);
+  }
+
+  const expression = parseOr();
+  if (index < tokens.length) {
+    throw new ExpressionSyntaxError("Unexpected )", positionOf(peek()));
+  }
+  return expression;
+}
+
+// An expression made only of negations would match almost every tweet
+function hasPositiveTerm(node: ExpressionNode, negated = false): boolean {
+  switch (node.type) {
+    case "term":
+      return !negated;
+    case "not":
+      return hasPositiveTerm(node.child, !negated);
+    default:
+      return node.children.some((child) => hasPositiveTerm(child, negated));
+  }
+}
+
+// Parse and validate an expression
+export function parseRuleExpression(source: string): ExpressionParseResult {
+  try {
+    const tokens = tokenize(source);
+    if (tokens.length === 0) {
+      return { ok: false, error: "Expression is empty", position: 0 };
+    }
+    const expression = parseTokens(tokens, source.length);
+    if (!hasPositiveTerm(expression)) {
+      return { ok: false, error: "Expression needs at least one term that is not negated", position: 0 };
+    }
+    return { ok: true, expression };
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return { ok: false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+// Parse an expression or throw a readable error (used when rules are saved)
+export function validateRuleExpression(source: string) {
+  const parsed = parseRuleExpression(source);
+  if (!parsed.ok) {
+    throw new Error(`Invalid rule expression at position ${parsed.position + 1}: ${parsed.error}`);
+  }
+  return parsed.expression;
+}
+
+// Match a rule's keyword list as case-insensitive substrings, any of which may hit, the way
+// keyword rules matched before expressions existed
+export function substringKeywordsExpression(keywords: string[]): ExpressionNode {
+  const children: ExpressionNode[] = keywords
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+    .map((keyword) => ({ type: "term", term: { kind: "substring", source: keyword, value: keyword } }));
+  return { type: "or", children };
+}
+
+// Match a list of keywords as whole words or phrases, any of which may hit
+export function keywordsExpression(keywords: string[]): ExpressionNode {
+  const children: ExpressionNode[] = keywords
+    .map((keyword) => splitWords(keyword))
+    .filter((words) => words.length > 0)
+    .map((words) => ({
+      type: "term",
+      term: words.length === 1
+        ? { kind: "word", source: words[0], word: words[0] }
+        : { kind: "phrase", source: `"${words.join(" ")}"`, words },
+    }));
+  return { type: "or", children };
+}
+
+type WordToken = { word: string; index: number };
+
+function wordTokens(text: string): WordToken[] {
+  return Array.from(text.matchAll(new RegExp(`${WORD_CHAR}+`, "gu")), (match) => ({
+    word: match[0].toLowerCase(),
+    index: match.index ?? 0,
+  }));
+}
+
+function wordMatches(pattern: string, word: string) {
+  return pattern.endsWith("*") ? word.startsWith(pattern.slice(0, -1)) : word === pattern;
+}
+
+// Find the tightest window, anchored on an occurrence of the first word, holding every word
+function matchProximity(term: Extract<ExpressionTerm, { kind: "proximity" }>, text: string): TermHit | null {
+  const tokens = wordTokens(text);
+  const positions = term.words.map((pattern) =>
+    tokens.flatMap((token, position) => (wordMatches(pattern, token.word) ? [position] : []))
+  );
+  if (positions.some((list) => list.length === 0)) {
+    return null;
+  }
+
+  for (const anchor of positions[0]) {
+    let first = anchor;
+    let last = anchor;
+    for (const list of positions.slice(1)) {
+      const nearest = list.reduce((best, position) =>
+        Math.abs(position - anchor) < Math.abs(best - anchor) ? position : best
+      );
+      first = Math.min(first, nearest);
+      last = Math.max(last, nearest);
+    }
+    if (last - first <= term.distance) {
+      const start = tokens[first].index;
+      const end = tokens[last].index + tokens[last].word.length;
+      return { term: term.source, index: start, text: text.slice(start, end) };
+    }
+  }
+  return null;
+}
+
+function matchTerm(term: ExpressionTerm, text: string): TermHit | null {
+  if (term.kind === "proximity") {
+    return matchProximity(term, text);
+  }
+
+  const regex =
+    term.kind === "regex"
+      ? new RegExp(term.pattern, term.flags)
+      : term.kind === "substring"
+        ? new RegExp(escapeRegex(term.value), "iu")
+        : phraseRegex(term.kind === "word" ? [term.word] : term.words);
+  const match = regex.exec(text);
+  return match ? { term: term.source, index: match.index, text: match[0] } : null;
+}
+
+// Evaluate a parsed expression against tweet text
+export function evaluateExpression(node: ExpressionNode, text: string): ExpressionMatch {
+  switch (node.type) {
+    case "term": {
+      const hit = matchTerm(node.term, text);
+      return { matched: hit !== null, hits: hit ? [hit] : [] };
+    }
+    case "not":
+      return { matched: !evaluateExpression(node.child, text).matched, hits: [] };
+    case "and": {
+      const hits: TermHit[] = [];
+      for (const child of node.children) {
+        const result = evaluateExpression(child, text);
+        if (!result.matched) {
+          return { matched: false, hits: [] };
+        }
+        hits.push(...result.hits);
+      }
+      return { matched: true, hits };
+    }
+    case "or": {
+      const results = node.children.map((child) => evaluateExpression(child, text));
+      const matched = results.some((result) => result.matched);
+      return { matched, hits: matched ? results.flatMap((result) => result.hits) : [] };
+    }
+  }
+}
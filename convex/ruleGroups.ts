@@ -0,0 +1,96 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { routingPolicyValidator } from "./twitter";
+
+function validateEscalateAtPriority(escalateAtPriority: number | undefined) {
+  if (escalateAtPriority !== undefined && (escalateAtPriority < 1 || escalateAtPriority > 10)) {
+    throw new Error("Escalation priority must be between 1 and 10");
+  }
+}
+
+// Query to list rule groups with the rules in each
+export const getRuleGroups = query({
+  args: {},
+  handler: async (ctx) => {
+    const groups = await ctx.db.query("ruleGroups").collect();
+    const rules = (await ctx.db.query("routingRules").collect()).filter((rule) => rule.deletedAt === undefined);
+    return groups.map((group) => ({
+      ...group,
+      ruleNames: rules.filter((rule) => rule.groupId === group._id).map((rule) => rule.name),
+    }));
+  },
+});
+
+// Mutation to create a rule group
+export const createRuleGroup = mutation({
+  args: {
+    name: v.string(),
+    policy: routingPolicyValidator,
+    escalateAtPriority: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Group name is required");
+    }
+    validateEscalateAtPriority(args.escalateAtPriority);
+
+    const now = Date.now();
+    return await ctx.db.insert("ruleGroups", {
+      name,
+      policy: args.policy,
+      escalateAtPriority: args.policy === "escalate" ? args.escalateAtPriority : undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Mutation to rename a rule group or change its policy
+export const updateRuleGroup = mutation({
+  args: {
+    groupId: v.id("ruleGroups"),
+    name: v.optional(v.string()),
+    policy: v.optional(routingPolicyValidator),
+    escalateAtPriority: v.optional(v.number()),
+  },
+  handler: async (ctx, { groupId, ...updates }) => {
+    const group = await ctx.db.get(groupId);
+    if (!group) {
+      throw new Error("Rule group not found");
+    }
+    validateEscalateAtPriority(updates.escalateAtPriority);
+
+    const policy = updates.policy ?? group.policy;
+    const filteredUpdates: Record<string, unknown> = { updatedAt: Date.now() };
+    if (updates.name !== undefined) {
+      if (!updates.name.trim()) {
+        throw new Error("Group name is required");
+      }
+      filteredUpdates.name = updates.name.trim();
+    }
+    if (updates.policy !== undefined) filteredUpdates.policy = updates.policy;
+    filteredUpdates.escalateAtPriority =
+      policy === "escalate" ? updates.escalateAtPriority ?? group.escalateAtPriority : undefined;
+
+    await ctx.db.patch(groupId, filteredUpdates);
+    return { success: true };
+  },
+});
+
+// Mutation to delete a rule group. Its rules have to be moved out of it first.
+export const deleteRuleGroup = mutation({
+  args: {
+    groupId: v.id("ruleGroups"),
+  },
+  handler: async (ctx, { groupId }) => {
+    const rules = (await ctx.db.query("routingRules").collect()).filter(
+      (rule) => rule.groupId === groupId && rule.deletedAt === undefined
+    );
+    if (rules.length > 0) {
+      throw new Error(`Move ${rules.map((rule) => rule.name).join(", ")} out of the group before deleting it`);
+    }
+    await ctx.db.delete(groupId);
+    return { success: true };
+  },
+});
@@ -0,0 +1,132 @@
+import { Doc } from "./_generated/dataModel";
+import { ActiveWindow } from "./twitter";
+
+// When rules apply: active windows (days, hours, date ranges in a timezone) and the rule set
+// that is live, normal or incident (see incidents.ts)
+
+export const DEFAULT_WINDOW_TIME_ZONE = "Asia/Kolkata";
+
+export type RuleSet = "normal" | "incident";
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+function isTimeZone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Throws on the first invalid window, naming it
+export function validateActiveWindows(windows: ActiveWindow[]) {
+  windows.forEach((window, index) => {
+    const label = `Active window ${index + 1}`;
+    if (window.days && window.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error(`${label}: days must be 0 (Sunday) to 6 (Saturday)`);
+    }
+    if ((window.startTime === undefined) !== (window.endTime === undefined)) {
+      throw new Error(`${label}: set both a start and an end time, or neither`);
+    }
+    for (const time of [window.startTime, window.endTime]) {
+      if (time !== undefined && !TIME_PATTERN.test(time)) {
+        throw new Error(`${label}: "${time}" is not a HH:MM time`);
+      }
+    }
+    if (window.startTime !== undefined && window.startTime === window.endTime) {
+      throw new Error(`${label}: start and end time are the same`);
+    }
+    for (const date of [window.startDate, window.endDate]) {
+      if (date !== undefined && !DATE_PATTERN.test(date)) {
+        throw new Error(`${label}: "${date}" is not a YYYY-MM-DD date`);
+      }
+    }
+    if (window.startDate && window.endDate && window.startDate > window.endDate) {
+      throw new Error(`${label}: the start date is after the end date`);
+    }
+    if (window.timezone !== undefined && !isTimeZone(window.timezone)) {
+      throw new Error(`${label}: unknown timezone "${window.timezone}"`);
+    }
+  });
+}
+
+// Day of week, "YYYY-MM-DD" and "HH:MM" of an instant in a timezone
+function localParts(now: number, timezone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  return {
+    day: DAY_NAMES.indexOf(parts.weekday),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+export function isWithinWindow(window: ActiveWindow, now: number) {
+  const local = localParts(now, window.timezone ?? DEFAULT_WINDOW_TIME_ZONE);
+  if (window.startDate && local.date < window.startDate) return false;
+  if (window.endDate && local.date > window.endDate) return false;
+  if (window.days && window.days.length > 0 && !window.days.includes(local.day)) return false;
+  if (window.startTime && window.endTime) {
+    // An end before the start spans midnight, e.g. 22:00-06:00
+    return window.startTime < window.endTime
+      ? local.time >= window.startTime && local.time < window.endTime
+      : local.time >= window.startTime || local.time < window.endTime;
+  }
+  return true;
+}
+
+// e.g. "Mon/Tue/Wed 09:00-18:00 Asia/Kolkata, 2026-10-01 to 2026-10-31"
+export function describeWindow(window: ActiveWindow) {
+  const parts: string[] = [];
+  parts.push(
+    window.days && window.days.length > 0
+      ? [...window.days].sort((a, b) => a - b).map((day) => DAY_NAMES[day]).join("/")
+      : "every day"
+  );
+  if (window.startTime && window.endTime) {
+    parts.push(`${window.startTime}-${window.endTime}`);
+  }
+  parts.push(window.timezone ?? DEFAULT_WINDOW_TIME_ZONE);
+  const dates =
+    window.startDate || window.endDate ? `, ${window.startDate ?? "any time"} to ${window.endDate ?? "open-ended"}` : "";
+  return `${parts.join(" ")}${dates}`;
+}
+
+// Whether a rule's windows let it apply now; rules without windows always do
+export function checkActiveWindows(windows: ActiveWindow[] | undefined, now: number) {
+  if (!windows || windows.length === 0) {
+    return null;
+  }
+  const open = windows.find((window) => isWithinWindow(window, now));
+  return {
+    active: open !== undefined,
+    detail: open
+      ? `inside ${describeWindow(open)}`
+      : `outside ${windows.map(describeWindow).join("; ")}`,
+  };
+}
+
+export function ruleSetOf(rule: Pick<Doc<"routingRules">, "ruleSet">): RuleSet {
+  return rule.ruleSet === "incident" ? "incident" : "normal";
+}
+
+// Rules of the set that is live: incident rules replace the normal ones while an incident is declared
+export function rulesForMode<T extends Pick<Doc<"routingRules">, "ruleSet">>(rules: T[], incidentActive: boolean) {
+  const live: RuleSet = incidentActive ? "incident" : "normal";
+  return rules.filter((rule) => ruleSetOf(rule) === live);
+}
@@ -0,0 +1,164 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { validateRuleExpression } from "./ruleExpression";
+import { loadActiveIncident } from "./incidents";
+import { EvaluableRule, routeTweet } from "./routingEngine";
+import { rulesForMode, validateActiveWindows } from "./ruleSchedule";
+import { activeWindowValidator, routingConditionsValidator } from "./twitter";
+
+const DEFAULT_SAMPLE_SIZE = 200;
+const MAX_SAMPLE_SIZE = 1000;
+const MAX_SAMPLE_DIFFS = 20;
+
+const draftRuleValidator = v.object({
+  ruleId: v.optional(v.id("routingRules")), // replaces this saved rule; omit for a new rule
+  name: v.string(),
+  keywords: v.array(v.string()),
+  expression: v.optional(v.string()),
+  excludeKeywords: v.optional(v.array(v.string())),
+  conditions: v.optional(routingConditionsValidator),
+  intent: v.optional(v.string()),
+  minIntentConfidence: v.optional(v.number()),
+  groupId: v.optional(v.id("ruleGroups")),
+  activeWindows: v.optional(v.array(activeWindowValidator)),
+  ruleSet: v.optional(v.union(v.literal("normal"), v.literal("incident"))),
+  priority: v.number(),
+  isActive: v.boolean(),
+});
+
+// Dry-run draft rules over recent tweets and compare with the live rules. Nothing is written.
+export const simulateRuleSet = query({
+  args: {
+    draftRules: v.array(draftRuleValidator),
+    replaceAll: v.optional(v.boolean()), // drafts are the whole rule set instead of edits to it
+    sampleSize: v.optional(v.number()),
+  },
+  handler: async (ctx, { draftRules, replaceAll, sampleSize }) => {
+    for (const draft of draftRules) {
+      if (draft.expression?.trim()) {
+        validateRuleExpression(draft.expression);
+      }
+      validateActiveWindows(draft.activeWindows ?? []);
+    }
+
+    // Both sides use the rule set that is live now
+    const incidentActive = (await loadActiveIncident(ctx)) !== null;
+    const savedRules = await ctx.db.query("routingRules").collect();
+    const liveRules = rulesForMode(savedRules.filter((rule) => rule.isActive), incidentActive);
+
+    const now = Date.now();
+    // Drafts of new rules have no id until they are saved
+    const drafted: EvaluableRule[] = draftRules.map((draft) => {
+      const saved = draft.ruleId ? savedRules.find((rule) => rule._id === draft.ruleId) : undefined;
+      return {
+        _id: saved?._id,
+        _creationTime: saved?._creationTime ?? now,
+        responseTemplate: saved?.responseTemplate ?? "",
+        responseVariants: saved?.responseVariants,
+        createdAt: saved?.createdAt ?? now,
+        updatedAt: now,
+        name: draft.name,
+        keywords: draft.keywords,
+        expression: draft.expression?.trim() || undefined,
+        excludeKeywords: draft.excludeKeywords,
+        conditions: draft.conditions,
+        intent: draft.intent?.trim().toLowerCase() || undefined,
+        minIntentConfidence: draft.minIntentConfidence,
+        groupId: draft.groupId,
+        activeWindows: draft.activeWindows && draft.activeWindows.length > 0 ? draft.activeWindows : undefined,
+        ruleSet: draft.ruleSet === "incident" ? "incident" : undefined,
+        priority: draft.priority,
+        isActive: draft.isActive,
+      };
+    });
+    const draftedIds = new Set(drafted.flatMap((rule) => (rule._id ? [rule._id] : [])));
+    // Keep creation order so tie-breaks behave as they would live
+    const draftSet = rulesForMode<EvaluableRule>(
+      (replaceAll ? drafted : [...savedRules.filter((rule) => !draftedIds.has(rule._id)), ...drafted])
+        .filter((rule) => rule.isActive)
+        .sort((a, b) => a._creationTime - b._creationTime),
+      incidentActive
+    );
+
+    const exclusions = await ctx.db
+      .query("globalExclusions")
+      .withIndex("by_active", (q) => q.eq("isActive", true))
+      .collect();
+    const groups = await ctx.db.query("ruleGroups").collect();
+
+    const limit = Math.min(Math.max(sampleSize ?? DEFAULT_SAMPLE_SIZE, 1), MAX_SAMPLE_SIZE);
+    const tweets = await ctx.db.query("tweets").order("desc").take(limit);
+
+    // Report rows are keyed by rule id, or by position for drafts of new rules
+    const draftKeys = new Map(drafted.map((rule, index) => [rule, `draft-${index}`]));
+    const ruleKey = (rule: EvaluableRule | null) => (rule ? (rule._id ?? draftKeys.get(rule) ?? "") : "");
+
+    const byRule = new Map<string, { ruleName: string; draft: boolean; before: number; after: number }>();
+    const countRule = (rule: EvaluableRule | null, side: "before" | "after") => {
+      const key = ruleKey(rule);
+      const entry = byRule.get(key) ?? {
+        ruleName: rule?.name ?? "(skipped)",
+        draft: rule !== null && rule._id === undefined,
+        before: 0,
+        after: 0,
+      };
+      entry[side] += 1;
+      byRule.set(key, entry);
+    };
+
+    let switched = 0;
+    let skippedToRouted = 0;
+    let routedToSkipped = 0;
+    const samples: Array<{
+      tweetId: Id<"tweets">;
+      text: string;
+      authorUsername: string;
+      before: string | null;
+      after: string | null;
+      outcome: string;
+    }> = [];
+
+    for (const tweet of tweets) {
+      // Judge age conditions as of ingestion, when the tweet was routed live
+      const routedAt = tweet._creationTime;
+      const before = routeTweet(liveRules, exclusions, tweet, routedAt, groups);
+      const after = routeTweet(draftSet, exclusions, tweet, routedAt, groups);
+      countRule(before.rule, "before");
+      countRule(after.rule, "after");
+
+      if (ruleKey(before.rule) === ruleKey(after.rule)) {
+        continue;
+      }
+      if (!before.rule) {
+        skippedToRouted += 1;
+      } else if (!after.rule) {
+        routedToSkipped += 1;
+      } else {
+        switched += 1;
+      }
+      if (samples.length < MAX_SAMPLE_DIFFS) {
+        samples.push({
+          tweetId: tweet._id,
+          text: tweet.text,
+          authorUsername: tweet.authorUsername,
+          before: before.rule?.name ?? null,
+          after: after.rule?.name ?? null,
+          outcome: after.outcome,
+        });
+      }
+    }
+
+    return {
+      sampled: tweets.length,
+      changed: switched + skippedToRouted + routedToSkipped,
+      switched,
+      skippedToRouted,
+      routedToSkipped,
+      byRule: [...byRule.entries()]
+        .map(([key, entry]) => ({ key, ...entry }))
+        .sort((a, b) => b.after - a.after),
+      samples,
+    };
+  },
+});
@@ -0,0 +1,139 @@
+import { v } from "convex/values";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+
+// The fields of a rule that are versioned
+const VERSIONED_FIELDS = [
+  "name",
+  "keywords",
+  "expression",
+  "excludeKeywords",
+  "conditions",
+  "intent",
+  "minIntentConfidence",
+  "groupId",
+  "activeWindows",
+  "ruleSet",
+  "priority",
+  "responseTemplate",
+  "responseVariants",
+  "isActive",
+] as const;
+
+type RuleSnapshot = Pick<Doc<"routingRules">, (typeof VERSIONED_FIELDS)[number]>;
+
+type ChangeType = "created" | "updated" | "deleted" | "rolled_back";
+
+function snapshotOf(rule: RuleSnapshot): RuleSnapshot {
+  return {
+    name: rule.name,
+    keywords: rule.keywords,
+    expression: rule.expression,
+    excludeKeywords: rule.excludeKeywords,
+    conditions: rule.conditions,
+    intent: rule.intent,
+    minIntentConfidence: rule.minIntentConfidence,
+    groupId: rule.groupId,
+    activeWindows: rule.activeWindows,
+    ruleSet: rule.ruleSet,
+    priority: rule.priority,
+    responseTemplate: rule.responseTemplate,
+    responseVariants: rule.responseVariants,
+    isActive: rule.isActive,
+  };
+}
+
+function encode(value: unknown) {
+  return value === undefined ? undefined : JSON.stringify(value);
+}
+
+// Field-by-field differences, with values as JSON
+function diffSnapshots(before: RuleSnapshot | null, after: RuleSnapshot) {
+  return VERSIONED_FIELDS.flatMap((field) => {
+    const previous = before ? encode(before[field]) : undefined;
+    const next = encode(after[field]);
+    return previous === next ? [] : [{ field, before: previous, after: next }];
+  });
+}
+
+// Identity of the signed-in user, when the deployment has auth configured
+export async function getActor(ctx: MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  return identity?.name ?? identity?.email ?? undefined;
+}
+
+// Record the rule's current state as a new version and point the rule at it
+export async function recordRuleVersion(
+  ctx: MutationCtx,
+  ruleId: Id<"routingRules">,
+  changeType: ChangeType,
+  previous: RuleSnapshot | null,
+  rolledBackTo?: number
+): Promise<Id<"routingRuleVersions"> | null> {
+  const rule = await ctx.db.get(ruleId);
+  if (!rule) {
+    return null;
+  }
+
+  const version = (rule.version ?? 0) + 1;
+  const snapshot = snapshotOf(rule);
+  const versionId = await ctx.db.insert("routingRuleVersions", {
+    ruleId,
+    version,
+    changeType,
+    changedBy: await getActor(ctx),
+    rolledBackTo,
+    changes: diffSnapshots(previous, snapshot),
+    ...snapshot,
+    createdAt: Date.now(),
+  });
+  await ctx.db.patch(ruleId, { version, currentVersionId: versionId });
+  return versionId;
+}
+
+// Version a tweet or response should reference; rules saved before versioning get their first one here
+export async function currentRuleVersionId(ctx: MutationCtx, rule: Doc<"routingRules">) {
+  return rule.currentVersionId ?? (await recordRuleVersion(ctx, rule._id, "created", null)) ?? undefined;
+}
+
+// Query to list a rule's versions, newest first
+export const getRuleHistory = query({
+  args: {
+    ruleId: v.id("routingRules"),
+  },
+  handler: async (ctx, { ruleId }) => {
+    return await ctx.db
+      .query("routingRuleVersions")
+      .withIndex("by_rule", (q) => q.eq("ruleId", ruleId))
+      .order("desc")
+      .collect();
+  },
+});
+
+// Mutation to restore a rule, deleted or not, to an earlier version
+export const rollbackRoutingRule = mutation({
+  args: {
+    ruleId: v.id("routingRules"),
+    versionId: v.id("routingRuleVersions"),
+  },
+  handler: async (ctx, { ruleId, versionId }) => {
+    const rule = await ctx.db.get(ruleId);
+    const target = await ctx.db.get(versionId);
+    if (!rule || !target || target.ruleId !== ruleId) {
+      throw new Error("Rule version not found");
+    }
+
+    // A group deleted since the version was recorded is dropped
+    const groupId = target.groupId && (await ctx.db.get(target.groupId)) ? target.groupId : undefined;
+
+    const previous = snapshotOf(rule);
+    await ctx.db.patch(ruleId, {
+      ...snapshotOf(target),
+      groupId,
+      deletedAt: undefined,
+      updatedAt: Date.now(),
+    });
+    await recordRuleVersion(ctx, ruleId, "rolled_back", previous, target.version);
+    return { success: true };
+  },
+});
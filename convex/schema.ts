@@ -1,5 +1,11 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import {
+  activeWindowValidator,
+  entityTypeValidator,
+  routingConditionsValidator,
+  routingPolicyValidator,
+} from "./twitter";
 
 // The schema is entirely optional.
 // You can delete this file (schema.ts) and the
@@ -18,29 +24,150 @@ export default defineSchema({
     authorId: v.string(),
     authorUsername: v.string(),
     authorName: v.string(),
+    authorFollowersCount: v.optional(v.number()),
+    authorVerified: v.optional(v.boolean()),
 
     // Timestamps & metrics
     tweetCreatedAt: v.string(),
     retweetCount: v.number(),
     likeCount: v.number(),
     replyCount: v.number(),
+    metricsObservedAt: v.optional(v.number()), // webhook timestamp of the latest counts
+
+    // Threading and entities
+    inReplyToId: v.optional(v.string()),
+    conversationId: v.optional(v.string()),
+    quotedTweetId: v.optional(v.string()),
+    quotedTweetText: v.optional(v.string()),
+    quotedTweetAuthorUsername: v.optional(v.string()),
+    mentionedUsernames: v.optional(v.array(v.string())),
+    hashtags: v.optional(v.array(v.string())),
+    expandedUrls: v.optional(v.array(v.string())),
+    media: v.optional(
+      v.array(
+        v.object({
+          type: v.string(), // "photo" | "video" | "animated_gif"
+          url: v.string(),
+          previewUrl: v.optional(v.string()),
+        })
+      )
+    ),
+
+    // Structured entities found in the text (see entityExtraction.ts); phone and email are masked
+    extractedEntities: v.optional(
+      v.array(
+        v.object({
+          type: entityTypeValidator,
+          value: v.string(),
+          text: v.string(),
+          index: v.number(),
+          confidence: v.number(),
+        })
+      )
+    ),
 
     // Webhook metadata
     eventType: v.string(),
     ruleId: v.string(),
     ruleTag: v.string(),
+    sourceRuleId: v.optional(v.id("sourceRules")), // mirrored upstream rule for ruleId, if known
     webhookTimestamp: v.number(),
+    deliveryId: v.optional(v.string()), // deliveryJournal entry the tweet came from
+
+    // Passenger conversation this tweet belongs to
+    threadId: v.optional(v.id("conversations")),
 
     // Raw payload for debugging/future use
     rawPayload: v.any(),
 
+    // Intent predicted ahead of keyword routing (see intentClassifier.ts)
+    intent: v.optional(v.string()),
+    intentConfidence: v.optional(v.number()),
+    intentModelId: v.optional(v.id("intentModels")),
+
+    // Lexicon scores and the inbox queue priority built from them (see tweetScoring.ts)
+    sentimentScore: v.optional(v.number()), // -1 (furious) to 1 (delighted)
+    urgencyScore: v.optional(v.number()), // 0 to 1
+    queuePriority: v.optional(v.number()), // 0 to 100, recomputed when the tweet is routed
+    priorityBreakdown: v.optional(
+      v.array(v.object({ factor: v.string(), points: v.number(), detail: v.string() }))
+    ),
+
     // Routing fields
     routingStatus: v.optional(v.string()), // "pending" | "routed" | "responded" | "skipped"
     matchedRuleId: v.optional(v.id("routingRules")),
+    matchedRuleVersionId: v.optional(v.id("routingRuleVersions")), // the rule as it was when matched
+    matchedRuleIds: v.optional(v.array(v.id("routingRules"))), // every matching rule, best first
+    routingPolicy: v.optional(routingPolicyValidator), // from the winner's rule group
+    escalationReason: v.optional(v.string()), // set when conflicting rules need a human reply
+    // Exclusions that stopped a rule (or, when global, every rule) from routing the tweet
+    exclusionHits: v.optional(
+      v.array(
+        v.object({
+          scope: v.string(), // "global" | "rule"
+          term: v.string(),
+          text: v.string(),
+          category: v.optional(v.string()),
+          ruleId: v.optional(v.id("routingRules")),
+        })
+      )
+    ),
+    routingTrace: v.optional(
+      v.object({
+        evaluatedAt: v.number(),
+        outcome: v.string(), // tie-break or skip explanation
+        matchedRuleId: v.optional(v.id("routingRules")),
+        intent: v.optional(v.object({ label: v.string(), confidence: v.number() })),
+        rules: v.array(
+          v.object({
+            ruleId: v.id("routingRules"),
+            ruleName: v.string(),
+            priority: v.number(),
+            matched: v.boolean(),
+            score: v.number(),
+            hits: v.array(v.object({ term: v.string(), index: v.number(), text: v.string() })),
+            conditions: v.array(v.object({ condition: v.string(), passed: v.boolean(), detail: v.string() })),
+            excludedBy: v.optional(v.string()),
+            intentMatched: v.optional(v.boolean()),
+          })
+        ),
+      })
+    ),
   })
     .index("by_tweet_id", ["tweetId"])
     .index("by_rule_id", ["ruleId"])
-    .index("by_routing_status", ["routingStatus"]),
+    .index("by_source_rule", ["sourceRuleId"])
+    .index("by_routing_status", ["routingStatus"])
+    .index("by_matched_rule", ["matchedRuleId"])
+    .index("by_conversation_id", ["conversationId"])
+    .index("by_in_reply_to", ["inReplyToId"])
+    .index("by_quoted_tweet", ["quotedTweetId"])
+    .index("by_thread", ["threadId"]),
+
+  // Passenger conversations, keyed by thread root and author
+  conversations: defineTable({
+    rootTweetId: v.string(),
+    authorId: v.string(),
+    authorUsername: v.string(),
+    authorName: v.string(),
+    tweetCount: v.number(),
+    firstTweetAt: v.number(),
+    lastActivityAt: v.number(),
+    routingStatus: v.string(), // "pending" | "routed" | "responded" | "skipped"
+    matchedRuleId: v.optional(v.id("routingRules")),
+  })
+    .index("by_root_and_author", ["rootTweetId", "authorId"])
+    .index("by_last_activity", ["lastActivityAt"]),
+
+  // Engagement time series, one row per observed change in counts
+  tweetMetricSnapshots: defineTable({
+    tweetId: v.id("tweets"),
+    likeCount: v.number(),
+    retweetCount: v.number(),
+    replyCount: v.number(),
+    observedAt: v.number(),
+  })
+    .index("by_tweet", ["tweetId", "observedAt"]),
 
   // Store Twitter login sessions
   twitterSessions: defineTable({
@@ -60,19 +187,143 @@ export default defineSchema({
   routingRules: defineTable({
     name: v.string(),
     keywords: v.array(v.string()),
+    expression: v.optional(v.string()), // see ruleExpression.ts; replaces keywords when set
+    excludeKeywords: v.optional(v.array(v.string())), // rule does not apply if any of these match
+    // Author and metadata conditions, all of which must hold (see routingConditionsValidator)
+    conditions: v.optional(routingConditionsValidator),
+    // Predicted intent that matches the rule as well as its keywords, and the confidence it needs
+    intent: v.optional(v.string()),
+    minIntentConfidence: v.optional(v.number()),
+    groupId: v.optional(v.id("ruleGroups")), // shares a policy for tweets matching several rules
+    // Times the rule applies in, any of which will do (see activeWindowValidator); none means always
+    activeWindows: v.optional(v.array(activeWindowValidator)),
+    ruleSet: v.optional(v.string()), // "normal" (default) | "incident": live only while an incident is declared
     priority: v.number(),
     responseTemplate: v.string(),
+    // Weighted alternatives that replace responseTemplate when set, one picked per reply
+    responseVariants: v.optional(
+      v.array(v.object({ key: v.string(), template: v.string(), weight: v.number() }))
+    ),
     isActive: v.boolean(),
+    version: v.optional(v.number()), // number of the latest routingRuleVersions row
+    currentVersionId: v.optional(v.id("routingRuleVersions")),
+    deletedAt: v.optional(v.number()), // soft delete; deleted rules stay inactive
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_active", ["isActive"]),
 
+  // Immutable snapshot of a routing rule after each change
+  routingRuleVersions: defineTable({
+    ruleId: v.id("routingRules"),
+    version: v.number(),
+    changeType: v.string(), // "created" | "updated" | "deleted" | "rolled_back"
+    changedBy: v.optional(v.string()),
+    rolledBackTo: v.optional(v.number()), // version restored by a rollback
+    changes: v.array(
+      v.object({
+        field: v.string(),
+        before: v.optional(v.string()), // JSON of the previous value
+        after: v.optional(v.string()),
+      })
+    ),
+    name: v.string(),
+    keywords: v.array(v.string()),
+    expression: v.optional(v.string()),
+    excludeKeywords: v.optional(v.array(v.string())),
+    conditions: v.optional(routingConditionsValidator),
+    intent: v.optional(v.string()),
+    minIntentConfidence: v.optional(v.number()),
+    groupId: v.optional(v.id("ruleGroups")),
+    activeWindows: v.optional(v.array(activeWindowValidator)),
+    ruleSet: v.optional(v.string()),
+    priority: v.number(),
+    responseTemplate: v.string(),
+    responseVariants: v.optional(
+      v.array(v.object({ key: v.string(), template: v.string(), weight: v.number() }))
+    ),
+    isActive: v.boolean(),
+    createdAt: v.number(),
+  })
+    .index("by_rule", ["ruleId", "version"]),
+
+  // Groups of rules that share a policy for tweets matching several of them
+  ruleGroups: defineTable({
+    name: v.string(),
+    policy: routingPolicyValidator,
+    escalateAtPriority: v.optional(v.number()), // escalate: conflicts between rules at or above this priority
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  // Declared disruption events; while one is active the incident rule set replaces the normal one
+  incidents: defineTable({
+    name: v.string(),
+    note: v.optional(v.string()),
+    isActive: v.boolean(),
+    declaredBy: v.optional(v.string()),
+    declaredAt: v.number(),
+    endedBy: v.optional(v.string()),
+    endedAt: v.optional(v.number()),
+  })
+    .index("by_active", ["isActive"]),
+
+  // Trained intent classifiers; routing uses the active one
+  intentModels: defineTable({
+    kind: v.string(), // "naive_bayes"
+    labels: v.array(
+      v.object({
+        label: v.string(),
+        documentCount: v.number(),
+        tokenCount: v.number(),
+        tokens: v.array(v.string()),
+        counts: v.array(v.number()), // parallel to tokens
+      })
+    ),
+    vocabularySize: v.number(),
+    exampleCount: v.number(),
+    isActive: v.boolean(),
+    trainedAt: v.number(),
+  })
+    .index("by_active", ["isActive"]),
+
+  // Agent corrections of misrouted tweets: a labelled dataset for rules and the intent model
+  routingCorrections: defineTable({
+    tweetId: v.id("tweets"),
+    text: v.string(),
+    previousRuleId: v.optional(v.id("routingRules")),
+    previousIntent: v.optional(v.string()),
+    previousHits: v.array(v.string()), // terms of the previous rule that matched the tweet
+    correctedRuleId: v.optional(v.id("routingRules")), // unset: the tweet should not have been routed
+    correctedIntent: v.optional(v.string()),
+    reason: v.optional(v.string()),
+    correctedBy: v.optional(v.string()),
+    rerouted: v.boolean(), // false when a reply had already gone out
+    createdAt: v.number(),
+  })
+    .index("by_tweet", ["tweetId"])
+    .index("by_previous_rule", ["previousRuleId"])
+    .index("by_corrected_rule", ["correctedRuleId"]),
+
+  // Terms that stop any rule from routing a tweet (competitors, profanity, spam)
+  globalExclusions: defineTable({
+    term: v.string(),
+    field: v.optional(v.string()), // "text" (default) | "author" (username, e.g. our own support account)
+    category: v.string(), // "competitor" | "profanity" | "spam" | "other"
+    isActive: v.boolean(),
+    createdAt: v.number(),
+  })
+    .index("by_active", ["isActive"]),
+
   // Track responses sent
   tweetResponses: defineTable({
     originalTweetId: v.string(),
     responseTweetId: v.optional(v.string()),
+    threadId: v.optional(v.id("conversations")),
     routingRuleId: v.optional(v.id("routingRules")),
+    routingRuleVersionId: v.optional(v.id("routingRuleVersions")),
+    variantKey: v.optional(v.string()), // response variant the text was rendered from
+    merged: v.optional(v.boolean()), // combines several rules' responses (group policy "merge")
     sessionId: v.optional(v.id("twitterSessions")),
     responseText: v.string(),
     status: v.string(), // "pending" | "sent" | "failed"
@@ -81,5 +332,138 @@ export default defineSchema({
     sentAt: v.optional(v.number()),
   })
     .index("by_original_tweet", ["originalTweetId"])
+    .index("by_response_tweet", ["responseTweetId"])
+    .index("by_rule", ["routingRuleId"])
+    .index("by_thread", ["threadId"])
+    .index("by_status", ["status"]),
+
+  // Batched re-routing of stored tweets after rules change, resumable from its cursor
+  reroutingJobs: defineTable({
+    status: v.string(), // "running" | "completed" | "cancelled"
+    since: v.optional(v.number()), // tweet ingestion time range
+    until: v.optional(v.number()),
+    routingStatuses: v.optional(v.array(v.string())), // only tweets currently in these statuses
+    ruleId: v.optional(v.id("routingRules")), // only tweets currently matched to this rule
+    cursor: v.optional(v.string()),
+    scanned: v.number(),
+    rerouted: v.number(),
+    unchanged: v.number(),
+    responded: v.number(), // already responded to, left alone
+    responsesCreated: v.number(),
+    responsesReplaced: v.number(),
+    responsesRemoved: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
     .index("by_status", ["status"]),
+
+  // Mirror of the provider's filter rules (the ruleId/ruleTag on each delivery)
+  sourceRules: defineTable({
+    tag: v.string(),
+    query: v.string(),
+    pollingIntervalSeconds: v.number(),
+    isEnabled: v.boolean(),
+    upstreamRuleId: v.optional(v.string()), // provider rule_id, set once the rule is pushed
+    syncStatus: v.string(), // "pending" | "synced" | "failed" | "deleting"
+    syncError: v.optional(v.string()),
+    lastSyncedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_upstream_rule_id", ["upstreamRuleId"]),
+
+  // Per-rule search cursors for polling backfill
+  backfillCursors: defineTable({
+    ruleId: v.string(),
+    ruleTag: v.string(),
+    query: v.string(),
+    isEnabled: v.boolean(),
+    lastSeenTweetId: v.optional(v.string()), // everything at or below this has been fetched
+    // Unfinished gap: tweets at or below gapMaxId are still to be paged (see backfill.ts)
+    gapMaxId: v.optional(v.string()),
+    gapNewestId: v.optional(v.string()),
+    gapSinceTime: v.optional(v.number()), // lower bound of a first run's gap, before any tweet was seen
+    lastRunAt: v.optional(v.number()),
+    lastInsertedCount: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+  })
+    .index("by_rule_id", ["ruleId"])
+    .index("by_enabled", ["isEnabled"]),
+
+  // Immutable journal of every accepted webhook delivery
+  deliveryJournal: defineTable({
+    deliveryId: v.string(),
+    provider: v.optional(v.string()), // ingestion adapter; absent means "twitterapi-io"
+    rawBody: v.string(), // empty when the body is split across deliveryJournalChunks
+    rawBodyChunkCount: v.optional(v.number()),
+    headers: v.array(v.object({ name: v.string(), value: v.string() })),
+    eventType: v.string(),
+    ruleId: v.string(),
+    ruleTag: v.string(),
+    timestamp: v.number(),
+    tweetCount: v.number(),
+    receivedAt: v.number(),
+  })
+    .index("by_delivery_id", ["deliveryId"])
+    .index("by_received_at", ["receivedAt"]),
+
+  // Pieces of journaled bodies too large for one document, in order
+  deliveryJournalChunks: defineTable({
+    journalId: v.id("deliveryJournal"),
+    index: v.number(),
+    text: v.string(),
+  })
+    .index("by_journal", ["journalId", "index"]),
+
+  // Tweets from throttled deliveries waiting to be stored, as chunks of their journal entry
+  ingestQueue: defineTable({
+    deliveryId: v.string(),
+    provider: v.string(),
+    source: v.string(), // "<provider>:<rule_id>", the rate-limit bucket
+    offset: v.number(), // first tweet of the chunk within the journaled delivery
+    tweetCount: v.number(),
+    renormalize: v.optional(v.boolean()), // queued by a journal replay that rebuilds tweets
+    enqueuedAt: v.number(),
+    availableAt: v.number(), // earliest time the source is expected to have capacity
+  })
+    .index("by_available_at", ["availableAt"]),
+
+  // Per-source token buckets for ingestion rate limiting
+  ingestRateLimits: defineTable({
+    source: v.string(),
+    tokens: v.number(),
+    refilledAt: v.number(),
+  })
+    .index("by_source", ["source"]),
+
+  // Dead-lettered webhook deliveries that failed validation or storage
+  webhookDeliveries: defineTable({
+    provider: v.optional(v.string()), // ingestion adapter; absent means "twitterapi-io"
+    body: v.string(),
+    bodyTruncated: v.boolean(),
+    reason: v.string(), // e.g. "bad_json" | "missing_rule_id" | "missing_author" | "store_failed"
+    detail: v.optional(v.string()),
+    headers: v.array(v.object({ name: v.string(), value: v.string() })),
+    status: v.string(), // "rejected" | "replayed"
+    receivedAt: v.number(),
+    replayedAt: v.optional(v.number()),
+    replayResult: v.optional(
+      v.object({
+        inserted: v.number(),
+        updated: v.optional(v.number()),
+        skipped: v.number(),
+        deferred: v.optional(v.number()), // queued by the ingest rate limit
+      })
+    ),
+  })
+    .index("by_status", ["status"]),
+
+  // Recently seen webhook signatures (replay protection)
+  webhookNonces: defineTable({
+    nonce: v.string(),
+    expiresAt: v.number(),
+  })
+    .index("by_nonce", ["nonce"])
+    .index("by_expires_at", ["expiresAt"]),
 });
@@ -0,0 +1,482 @@
+import { v } from "convex/values";
+import {
+  action,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { upsertBackfillCursor } from "./backfill";
+
+const DEFAULT_API_BASE_URL = "https://api.twitterapi.io";
+const DEFAULT_POLLING_INTERVAL_SECONDS = 300;
+
+export type UpstreamRule = {
+  ruleId: string;
+  tag: string;
+  query: string;
+  pollingIntervalSeconds: number;
+  isEnabled?: boolean;
+};
+
+// Provider-side filter rule registry; swap it out to test against a fake server
+export interface RuleRegistryClient {
+  listRules(): Promise<UpstreamRule[]>;
+  addRule(rule: { tag: string; query: string; pollingIntervalSeconds: number }): Promise<string>;
+  updateRule(rule: UpstreamRule & { isEnabled: boolean }): Promise<void>;
+  deleteRule(ruleId: string): Promise<void>;
+}
+
+// Rule registry client for twitterapi.io's tweet filter endpoints
+export function createTwitterApiRuleRegistryClient(options: {
+  apiKey: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}): RuleRegistryClient {
+  const baseUrl = (options.baseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+  const fetchFn = options.fetch ?? fetch;
+
+  const call = async (method: string, path: string, body?: Record<string, unknown>) => {
+    const response = await fetchFn(`${baseUrl}/oapi/tweet_filter/${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "X-API-Key": options.apiKey,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Filter rule request failed: ${response.status} - ${errorText}`);
+    }
+
+    // The API reports some failures with a 200 and status "error"
+    const result = await response.json();
+    if (result.status && result.status !== "success") {
+      throw new Error(`Filter rule request failed: ${result.msg || result.status}`);
+    }
+    return result;
+  };
+
+  return {
+    async listRules() {
+      const result = await call("GET", "get_rules");
+      const rules: Record<string, unknown>[] = Array.isArray(result.rules) ? result.rules : [];
+      return rules.flatMap((rule) => {
+        if (rule.rule_id === undefined || rule.rule_id === null) {
+          return [];
+        }
+        return [{
+          ruleId: String(rule.rule_id),
+          tag: String(rule.tag ?? ""),
+          query: String(rule.value ?? ""),
+          pollingIntervalSeconds: Number(rule.interval_seconds) || DEFAULT_POLLING_INTERVAL_SECONDS,
+          isEnabled: rule.is_effect === undefined ? undefined : Number(rule.is_effect) === 1,
+        }];
+      });
+    },
+
+    async addRule({ tag, query, pollingIntervalSeconds }) {
+      const result = await call("POST", "add_rule", {
+        tag,
+        value: query,
+        interval_seconds: pollingIntervalSeconds,
+      });
+      if (!result.rule_id) {
+        throw new Error("Filter rule request failed: no rule_id returned");
+      }
+      return String(result.rule_id);
+    },
+
+    async updateRule({ ruleId, tag, query, pollingIntervalSeconds, isEnabled }) {
+      await call("POST", "update_rule", {
+        rule_id: ruleId,
+        tag,
+        value: query,
+        interval_seconds: pollingIntervalSeconds,
+        is_effect: isEnabled ? 1 : 0,
+      });
+    },
+
+    async deleteRule(ruleId) {
+      await call("DELETE", "delete_rule", { rule_id: ruleId });
+    },
+  };
+}
+
+function getRuleRegistryClient() {
+  const apiKey = process.env.TWITTER_API_KEY;
+  if (!apiKey) {
+    throw new Error("TWITTER_API_KEY environment variable is not set");
+  }
+  return createTwitterApiRuleRegistryClient({
+    apiKey,
+    baseUrl: process.env.TWITTER_API_BASE_URL,
+  });
+}
+
+function validateSourceRule(rule: { tag: string; query: string; pollingIntervalSeconds: number }) {
+  if (!rule.tag.trim()) {
+    throw new Error("Tag is required");
+  }
+  if (!rule.query.trim()) {
+    throw new Error("Query is required");
+  }
+  if (!Number.isInteger(rule.pollingIntervalSeconds) || rule.pollingIntervalSeconds <= 0) {
+    throw new Error("Polling interval must be a positive whole number of seconds");
+  }
+}
+
+// Look up the mirrored rule for a webhook's rule_id
+export async function getSourceRuleByUpstreamId(ctx: QueryCtx, upstreamRuleId: string) {
+  return await ctx.db
+    .query("sourceRules")
+    .withIndex("by_upstream_rule_id", (q) => q.eq("upstreamRuleId", upstreamRuleId))
+    .first();
+}
+
+// Keep the backfill cursor for a synced rule in step with the rule itself
+async function mirrorToBackfill(ctx: MutationCtx, rule: Doc<"sourceRules">) {
+  if (!rule.upstreamRuleId) {
+    return;
+  }
+  await upsertBackfillCursor(ctx, {
+    ruleId: rule.upstreamRuleId,
+    ruleTag: rule.tag,
+    query: rule.query,
+    isEnabled: rule.isEnabled && rule.syncStatus !== "deleting",
+  });
+}
+
+// Query to list mirrored filter rules
+export const listSourceRules = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("sourceRules").collect();
+  },
+});
+
+// Mutation to create a filter rule; it is pushed to the provider in the background
+export const createSourceRule = mutation({
+  args: {
+    tag: v.string(),
+    query: v.string(),
+    pollingIntervalSeconds: v.number(),
+    isEnabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    validateSourceRule(args);
+
+    const now = Date.now();
+    const sourceRuleId = await ctx.db.insert("sourceRules", {
+      tag: args.tag.trim(),
+      query: args.query.trim(),
+      pollingIntervalSeconds: args.pollingIntervalSeconds,
+      isEnabled: args.isEnabled,
+      syncStatus: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.sourceRules.pushSourceRule, { sourceRuleId });
+    return sourceRuleId;
+  },
+});
+
+// Mutation to update a filter rule; the change is pushed to the provider in the background
+export const updateSourceRule = mutation({
+  args: {
+    sourceRuleId: v.id("sourceRules"),
+    tag: v.optional(v.string()),
+    query: v.optional(v.string()),
+    pollingIntervalSeconds: v.optional(v.number()),
+    isEnabled: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const rule = await ctx.db.get(args.sourceRuleId);
+    if (!rule) {
+      throw new Error("Source rule not found");
+    }
+    if (rule.syncStatus === "deleting") {
+      throw new Error("Source rule is being deleted");
+    }
+
+    const updated = {
+      tag: args.tag?.trim() ?? rule.tag,
+      query: args.query?.trim() ?? rule.query,
+      pollingIntervalSeconds: args.pollingIntervalSeconds ?? rule.pollingIntervalSeconds,
+      isEnabled: args.isEnabled ?? rule.isEnabled,
+    };
+    validateSourceRule(updated);
+
+    await ctx.db.patch(args.sourceRuleId, {
+      ...updated,
+      syncStatus: "pending",
+      syncError: undefined,
+      updatedAt: Date.now(),
+    });
+
+    await ctx.scheduler.runAfter(0, internal.sourceRules.pushSourceRule, {
+      sourceRuleId: args.sourceRuleId,
+    });
+    return { success: true };
+  },
+});
+
+// Mutation to delete a filter rule; the row is removed once the provider confirms
+export const deleteSourceRule = mutation({
+  args: {
+    sourceRuleId: v.id("sourceRules"),
+  },
+  handler: async (ctx, { sourceRuleId }) => {
+    const rule = await ctx.db.get(sourceRuleId);
+    if (!rule) {
+      throw new Error("Source rule not found");
+    }
+
+    if (!rule.upstreamRuleId) {
+      await ctx.db.delete(sourceRuleId);
+      return { success: true };
+    }
+
+    await ctx.db.patch(sourceRuleId, {
+      syncStatus: "deleting",
+      syncError: undefined,
+      updatedAt: Date.now(),
+    });
+    await mirrorToBackfill(ctx, { ...rule, syncStatus: "deleting" });
+
+    await ctx.scheduler.runAfter(0, internal.sourceRules.pushSourceRule, { sourceRuleId });
+    return { success: true };
+  },
+});
+
+// Internal query to load a source rule for syncing
+export const getSourceRule = internalQuery({
+  args: {
+    sourceRuleId: v.id("sourceRules"),
+  },
+  handler: async (ctx, { sourceRuleId }) => {
+    return await ctx.db.get(sourceRuleId);
+  },
+});
+
+// Internal query to list rules whose local state has not reached the provider yet
+export const getUnsyncedSourceRules = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const rules = await ctx.db.query("sourceRules").collect();
+    return rules.filter((rule) => rule.syncStatus !== "synced");
+  },
+});
+
+// Internal mutation to record the outcome of pushing a rule to the provider
+export const recordSourceRuleSync = internalMutation({
+  args: {
+    sourceRuleId: v.id("sourceRules"),
+    // Only applied if the rule has not been edited since it was read
+    updatedAt: v.number(),
+    upstreamRuleId: v.optional(v.string()),
+    deleted: v.optional(v.boolean()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const rule = await ctx.db.get(args.sourceRuleId);
+    if (!rule) {
+      return;
+    }
+
+    if (args.deleted) {
+      await ctx.db.delete(args.sourceRuleId);
+      return;
+    }
+
+    // An upstream ID must stick even if the rule was edited meanwhile,
+    // otherwise the next push would create a duplicate
+    const upstreamRuleId = args.upstreamRuleId ?? rule.upstreamRuleId;
+    if (rule.updatedAt !== args.updatedAt) {
+      await ctx.db.patch(args.sourceRuleId, { upstreamRuleId });
+      return;
+    }
+
+    const now = Date.now();
+    if (args.error) {
+      await ctx.db.patch(args.sourceRuleId, {
+        upstreamRuleId,
+        syncStatus: rule.syncStatus === "deleting" ? "deleting" : "failed",
+        syncError: args.error,
+      });
+      return;
+    }
+
+    await ctx.db.patch(args.sourceRuleId, {
+      upstreamRuleId,
+      syncStatus: "synced",
+      syncError: undefined,
+      lastSyncedAt: now,
+    });
+    await mirrorToBackfill(ctx, { ...rule, upstreamRuleId, syncStatus: "synced" });
+  },
+});
+
+// Internal mutation to mirror provider rules that were created outside the dashboard
+export const importUpstreamRules = internalMutation({
+  args: {
+    rules: v.array(
+      v.object({
+        ruleId: v.string(),
+        tag: v.string(),
+        query: v.string(),
+        pollingIntervalSeconds: v.number(),
+        isEnabled: v.optional(v.boolean()),
+      })
+    ),
+  },
+  handler: async (ctx, { rules }) => {
+    let importedCount = 0;
+    const now = Date.now();
+
+    for (const upstream of rules) {
+      const existing = await getSourceRuleByUpstreamId(ctx, upstream.ruleId);
+      if (existing) {
+        continue;
+      }
+
+      const sourceRuleId = await ctx.db.insert("sourceRules", {
+        tag: upstream.tag,
+        query: upstream.query,
+        pollingIntervalSeconds: upstream.pollingIntervalSeconds,
+        isEnabled: upstream.isEnabled ?? true,
+        upstreamRuleId: upstream.ruleId,
+        syncStatus: "synced",
+        lastSyncedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      });
+      const inserted = await ctx.db.get(sourceRuleId);
+      await mirrorToBackfill(ctx, inserted!);
+      importedCount++;
+    }
+
+    return { importedCount };
+  },
+});
+
+// Push one rule's local state (create, update or delete) to the provider
+async function pushRule(client: RuleRegistryClient, rule: Doc<"sourceRules">) {
+  if (rule.syncStatus === "deleting") {
+    if (rule.upstreamRuleId) {
+      await client.deleteRule(rule.upstreamRuleId);
+    }
+    return { deleted: true };
+  }
+
+  const upstreamRuleId = rule.upstreamRuleId ?? (await client.addRule(rule));
+  try {
+    await client.updateRule({ ...rule, ruleId: upstreamRuleId });
+  } catch (error) {
+    // Keep the new upstream ID so a retry updates the rule instead of adding another
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return { upstreamRuleId, error: errorMessage };
+  }
+  return { upstreamRuleId };
+}
+
+// Internal action to push a single rule to the provider
+export const pushSourceRule = internalAction({
+  args: {
+    sourceRuleId: v.id("sourceRules"),
+  },
+  handler: async (ctx, { sourceRuleId }) => {
+    const rule: Doc<"sourceRules"> | null = await ctx.runQuery(internal.sourceRules.getSourceRule, {
+      sourceRuleId,
+    });
+    if (!rule || rule.syncStatus === "synced") {
+      return;
+    }
+
+    try {
+      const result = await pushRule(getRuleRegistryClient(), rule);
+      await ctx.runMutation(internal.sourceRules.recordSourceRuleSync, {
+        sourceRuleId,
+        updatedAt: rule.updatedAt,
+        ...result,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`Failed to sync source rule ${sourceRuleId}:`, errorMessage);
+      await ctx.runMutation(internal.sourceRules.recordSourceRuleSync, {
+        sourceRuleId,
+        updatedAt: rule.updatedAt,
+        error: errorMessage,
+      });
+    }
+  },
+});
+
+type SyncSummary = {
+  success: boolean;
+  importedCount: number;
+  pushedCount: number;
+  failedCount: number;
+  message: string;
+};
+
+// Action to reconcile with the provider: import rules made on its website, then retry unsynced rules
+export const syncSourceRules = action({
+  args: {},
+  handler: async (ctx): Promise<SyncSummary> => {
+    const client = getRuleRegistryClient();
+
+    const upstream = await client.listRules();
+    const { importedCount }: { importedCount: number } = await ctx.runMutation(
+      internal.sourceRules.importUpstreamRules,
+      { rules: upstream }
+    );
+
+    const unsynced: Doc<"sourceRules">[] = await ctx.runQuery(
+      internal.sourceRules.getUnsyncedSourceRules,
+      {}
+    );
+    let pushedCount = 0;
+    let failedCount = 0;
+
+    for (const rule of unsynced) {
+      try {
+        const result = await pushRule(client, rule);
+        await ctx.runMutation(internal.sourceRules.recordSourceRuleSync, {
+          sourceRuleId: rule._id,
+          updatedAt: rule.updatedAt,
+          ...result,
+        });
+        if (result.error) {
+          failedCount++;
+        } else {
+          pushedCount++;
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        await ctx.runMutation(internal.sourceRules.recordSourceRuleSync, {
+          sourceRuleId: rule._id,
+          updatedAt: rule.updatedAt,
+          error: errorMessage,
+        });
+        failedCount++;
+      }
+    }
+
+    return {
+      success: failedCount === 0,
+      importedCount,
+      pushedCount,
+      failedCount,
+      message: `Imported ${importedCount}, pushed ${pushedCount}, failed ${failedCount}`,
+    };
+  },
+});
@@ -0,0 +1,156 @@
+import { Doc } from "./_generated/dataModel";
+
+// Offline, lexicon-based sentiment and urgency scores, combined with rule priority and
+// author reach into the inbox's queue priority. Every score carries the terms behind it.
+
+export type ScoredTerm = {
+  term: string;
+  weight: number;
+};
+
+export type TextScore = {
+  score: number;
+  terms: ScoredTerm[];
+};
+
+export type PriorityFactor = {
+  factor: string; // "urgency" | "sentiment" | "rule" | "reach"
+  points: number;
+  detail: string;
+};
+
+// Negative words weigh more than positive ones: complaints are what the queue is for
+const SENTIMENT_LEXICON: Record<string, number> = {
+  worst: -3, pathetic: -3, disgusting: -3, horrible: -3, terrible: -3, awful: -3, fraud: -3, scam: -3,
+  shameful: -3, shame: -2.5, useless: -2.5, ridiculous: -2.5, unacceptable: -2.5, harassed: -3, furious: -3,
+  angry: -2.5, rude: -2.5, cheated: -3, helpless: -2.5, stranded: -2.5, disappointed: -2, frustrated: -2,
+  worried: -1.5, upset: -2, annoyed: -1.5, poor: -1.5, bad: -1.5, lost: -1.5, damaged: -1.5, broken: -1.5,
+  delayed: -1, late: -1, cancelled: -1.5, missed: -1.5, stuck: -2, waiting: -1,
+  good: 1.5, great: 2, excellent: 2.5, amazing: 2.5, thanks: 1.5, thank: 1.5, helpful: 2, kind: 1.5,
+  smooth: 1.5, love: 2, happy: 2, appreciate: 2, resolved: 1.5, best: 2, wonderful: 2.5, polite: 1.5,
+};
+
+const NEGATIONS = new Set(["not", "no", "never", "isn't", "wasn't", "don't", "didn't", "won't", "cannot", "can't"]);
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, extremely: 2, so: 1.3, really: 1.3, totally: 1.5, absolutely: 1.7, completely: 1.5, most: 1.3,
+};
+
+// Situations that need a reply first: vulnerable passengers, people stuck right now, safety
+const URGENCY_LEXICON: Array<{ pattern: RegExp; term: string; weight: number }> = [
+  { pattern: /\bwheel ?chair\b/i, term: "wheelchair", weight: 1.5 },
+  { pattern: /\b(medical emergency|heart attack|unconscious|ambulance|chest pain|fainted)\b/i, term: "medical emergency", weight: 2 },
+  { pattern: /\b(safety|unsafe|smoke|fire|turbulence injury|harass(ed|ment)?)\b/i, term: "safety", weight: 1.8 },
+  { pattern: /\bstranded\b/i, term: "stranded", weight: 1.5 },
+  { pattern: /\b(elderly|senior citizen|old parents?|infant|baby|toddler|pregnant|unaccompanied minor)\b/i, term: "vulnerable passenger", weight: 1.2 },
+  { pattern: /\b(disabled|disability|blind|special assistance)\b/i, term: "special assistance", weight: 1.2 },
+  { pattern: /\b(urgent|urgently|emergency|asap|immediately|right now)\b/i, term: "urgent", weight: 1 },
+  { pattern: /\b(gate (is )?clos(ed|ing)|boarding (now|closed)|about to miss|denied boarding|offloaded)\b/i, term: "at the gate", weight: 1.2 },
+  { pattern: /\b(stuck|no food|no water|no one is helping|nobody is helping|since \d+ hours?)\b/i, term: "stuck", weight: 0.9 },
+  { pattern: /\b(missed (my )?connect(ion|ing flight)|missed (my |the )?flight)\b/i, term: "missed flight", weight: 0.8 },
+  { pattern: /\b(help|please help|sos)\b/i, term: "help", weight: 0.5 },
+  { pattern: /\b(today|tonight|now)\b/i, term: "today", weight: 0.3 },
+];
+
+// Squash an unbounded sum into -1..1 (VADER-style normalization)
+function normalizeSentiment(sum: number) {
+  return sum / Math.sqrt(sum * sum + 15);
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Sentiment from -1 (furious) to 1 (delighted). Negation flips and dampens the next few words'
+// weight; intensifiers scale the next word; shouting and repeated "!" amplify the total.
+export function scoreSentiment(text: string): TextScore {
+  const words = text.split(/\s+/).filter(Boolean);
+  const terms: ScoredTerm[] = [];
+  let sum = 0;
+  let negateFor = 0;
+  let intensity = 1;
+
+  for (const raw of words) {
+    const word = raw.toLowerCase().replace(/^[^\p{L}']+|[^\p{L}']+$/gu, "");
+    if (NEGATIONS.has(word)) {
+      negateFor = 3;
+      continue;
+    }
+    if (INTENSIFIERS[word]) {
+      intensity = INTENSIFIERS[word];
+      continue;
+    }
+
+    const base = SENTIMENT_LEXICON[word];
+    if (base !== undefined) {
+      const shouted = raw.length > 2 && raw === raw.toUpperCase() && /\p{L}/u.test(raw) ? 1.3 : 1;
+      const weight = base * intensity * shouted * (negateFor > 0 ? -0.6 : 1);
+      sum += weight;
+      terms.push({ term: negateFor > 0 ? `not ${word}` : word, weight: round(weight) });
+    }
+    intensity = 1;
+    negateFor = Math.max(negateFor - 1, 0);
+  }
+
+  const exclamations = Math.min((text.match(/!/g) ?? []).length, 4);
+  if (sum < 0 && exclamations > 1) {
+    sum *= 1 + 0.1 * exclamations;
+  }
+  return { score: round(normalizeSentiment(sum)), terms };
+}
+
+// Urgency from 0 (routine) to 1 (needs a reply now)
+export function scoreUrgency(text: string): TextScore {
+  const terms = URGENCY_LEXICON.filter((entry) => entry.pattern.test(text)).map((entry) => ({
+    term: entry.term,
+    weight: entry.weight,
+  }));
+  const sum = terms.reduce((total, term) => total + term.weight, 0);
+  return { score: round(1 - Math.exp(-sum / 1.5)), terms };
+}
+
+// Scores stored on a tweet. Queue priority is out of 100: urgency counts most, then how upset
+// the author is, then the matched rule's priority (1-10), then reach (followers, on a log scale
+// up to a million).
+export function scoreTweet(
+  tweet: Pick<Doc<"tweets">, "text" | "authorFollowersCount">,
+  rule: Pick<Doc<"routingRules">, "name" | "priority"> | null
+): { sentimentScore: number; urgencyScore: number; queuePriority: number; priorityBreakdown: PriorityFactor[] } {
+  const urgency = scoreUrgency(tweet.text);
+  const sentiment = scoreSentiment(tweet.text);
+  const describeTerms = (terms: ScoredTerm[]) =>
+    terms.length > 0 ? terms.map((term) => term.term).join(", ") : "no signal words";
+
+  const followers = tweet.authorFollowersCount;
+  const reach = followers !== undefined ? Math.min(Math.log10(followers + 1) / 6, 1) : 0;
+
+  const priorityBreakdown: PriorityFactor[] = [
+    {
+      factor: "urgency",
+      points: round(urgency.score * 40),
+      detail: `urgency ${urgency.score} (${describeTerms(urgency.terms)})`,
+    },
+    {
+      factor: "sentiment",
+      points: round(Math.max(-sentiment.score, 0) * 25),
+      detail: `sentiment ${sentiment.score} (${describeTerms(sentiment.terms)})`,
+    },
+    {
+      factor: "rule",
+      points: rule ? round((Math.min(Math.max(rule.priority, 0), 10) / 10) * 20) : 0,
+      detail: rule ? `${rule.name} has priority ${rule.priority}` : "no matched rule",
+    },
+    {
+      factor: "reach",
+      points: round(reach * 15),
+      detail: `${followers ?? "unknown"} followers`,
+    },
+  ];
+
+  return {
+    sentimentScore: sentiment.score,
+    urgencyScore: urgency.score,
+    queuePriority: round(priorityBreakdown.reduce((total, factor) => total + factor.points, 0)),
+    priorityBreakdown,
+  };
+}
@@ -1,6 +1,10 @@
-import { v } from "convex/values";
-import { internalMutation, query } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
+import { Infer, v } from "convex/values";
+import { internalMutation, MutationCtx, query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { attachToConversation } from "./conversations";
+import { extractEntities } from "./entityExtraction";
+import { getSourceRuleByUpstreamId } from "./sourceRules";
+import { scoreTweet } from "./tweetScoring";
 
 // Login API validator
 export const loginRequestValidator = v.object({
@@ -19,12 +23,69 @@ export const createTweetRequestValidator = v.object({
   reply_to_tweet_id: v.optional(v.string()),
 });
 
+// What happens when a tweet matches several rules of a group (see applyGroupPolicy in routingEngine.ts):
+// "top" replies with the winner only, "merge" combines every matching rule's response,
+// "escalate" leaves conflicts between high-priority rules to a human
+export const routingPolicyValidator = v.union(v.literal("top"), v.literal("merge"), v.literal("escalate"));
+
+// Kinds of entity extractEntities finds (see EntityType in entityExtraction.ts)
+export const entityTypeValidator = v.union(
+  v.literal("pnr"),
+  v.literal("flight"),
+  v.literal("pir"),
+  v.literal("airport"),
+  v.literal("date"),
+  v.literal("phone"),
+  v.literal("email")
+);
+
+// Author and metadata conditions a tweet must meet for a rule to apply
+export const routingConditionsValidator = v.object({
+  authorAllowList: v.optional(v.array(v.string())), // only these usernames
+  authorDenyList: v.optional(v.array(v.string())), // never these usernames
+  minFollowers: v.optional(v.number()),
+  verifiedOnly: v.optional(v.boolean()),
+  ruleTags: v.optional(v.array(v.string())), // upstream filter rule tags
+  minLikes: v.optional(v.number()),
+  maxAgeMinutes: v.optional(v.number()),
+  tweetKinds: v.optional(v.array(v.string())), // see getTweetKind
+  requiredEntities: v.optional(v.array(entityTypeValidator)), // entity types that must all be found
+  minEntityConfidence: v.optional(v.number()), // 0..1, for requiredEntities
+});
+
+export type RoutingConditions = Infer<typeof routingConditionsValidator>;
+
+// A time window in which a rule applies; every field set must hold (see ruleSchedule.ts)
+export const activeWindowValidator = v.object({
+  days: v.optional(v.array(v.number())), // 0 = Sunday .. 6 = Saturday
+  startTime: v.optional(v.string()), // "HH:MM", local to timezone
+  endTime: v.optional(v.string()), // "HH:MM", exclusive; before startTime spans midnight
+  timezone: v.optional(v.string()), // IANA name, Asia/Kolkata by default
+  startDate: v.optional(v.string()), // "YYYY-MM-DD", inclusive
+  endDate: v.optional(v.string()), // "YYYY-MM-DD", inclusive
+});
+
+export type ActiveWindow = Infer<typeof activeWindowValidator>;
+
+// A weighted alternative to a rule's response template
+export const responseVariantValidator = v.object({
+  key: v.string(), // stable label reported in A/B results, e.g. "A"
+  template: v.string(),
+  weight: v.number(),
+});
+
+export type ResponseVariant = Infer<typeof responseVariantValidator>;
+
 // Routing rule validator
 export const routingRuleValidator = v.object({
   name: v.string(),
   keywords: v.array(v.string()),
+  expression: v.optional(v.string()),
+  excludeKeywords: v.optional(v.array(v.string())),
+  conditions: v.optional(routingConditionsValidator),
   priority: v.number(),
   responseTemplate: v.string(),
+  responseVariants: v.optional(v.array(responseVariantValidator)),
   isActive: v.boolean(),
 });
 
@@ -33,6 +94,22 @@ const tweetAuthorValidator = v.object({
   id: v.string(),
   userName: v.string(),
   name: v.string(),
+  followers_count: v.optional(v.number()),
+  verified: v.optional(v.boolean()),
+});
+
+// Validator for media attached to a tweet
+export const tweetMediaValidator = v.object({
+  type: v.string(), // "photo" | "video" | "animated_gif"
+  url: v.string(),
+  preview_url: v.optional(v.string()),
+});
+
+// Validator for a quoted tweet (kept shallow)
+const quotedTweetValidator = v.object({
+  id: v.string(),
+  text: v.string(),
+  author_username: v.string(),
 });
 
 // Validator for individual tweet
@@ -44,6 +121,13 @@ const tweetValidator = v.object({
   retweet_count: v.number(),
   like_count: v.number(),
   reply_count: v.number(),
+  in_reply_to_id: v.optional(v.string()),
+  conversation_id: v.optional(v.string()),
+  quoted_tweet: v.optional(quotedTweetValidator),
+  mentions: v.optional(v.array(v.string())),
+  hashtags: v.optional(v.array(v.string())),
+  urls: v.optional(v.array(v.string())),
+  media: v.optional(v.array(tweetMediaValidator)),
 });
 
 // Validator for the full webhook payload
@@ -55,65 +139,203 @@ export const webhookPayloadValidator = v.object({
   timestamp: v.number(),
 });
 
+export type WebhookPayload = Infer<typeof webhookPayloadValidator>;
+
+export type TweetKind = "quote" | "reply" | "mention" | "original";
+
+// Classify how a tweet addresses us: a quote-tweet dunk reads differently from a direct @mention
+export function getTweetKind(
+  tweet: Pick<Doc<"tweets">, "quotedTweetId" | "inReplyToId" | "mentionedUsernames">
+): TweetKind {
+  if (tweet.quotedTweetId) return "quote";
+  if (tweet.inReplyToId) return "reply";
+  if (tweet.mentionedUsernames && tweet.mentionedUsernames.length > 0) return "mention";
+  return "original";
+}
+
+type TweetMetrics = Pick<Doc<"tweets">, "likeCount" | "retweetCount" | "replyCount">;
+
+// Append a point to a tweet's engagement time series
+async function recordMetricSnapshot(
+  ctx: MutationCtx,
+  tweetId: Id<"tweets">,
+  metrics: TweetMetrics,
+  observedAt: number
+) {
+  await ctx.db.insert("tweetMetricSnapshots", {
+    tweetId,
+    likeCount: metrics.likeCount,
+    retweetCount: metrics.retweetCount,
+    replyCount: metrics.replyCount,
+    observedAt,
+  });
+}
+
+// Update counts on an already-stored tweet when a newer observation differs.
+// Older observations (e.g. a late redelivery) never overwrite newer counts.
+async function refreshTweetMetrics(
+  ctx: MutationCtx,
+  existing: Doc<"tweets">,
+  metrics: TweetMetrics,
+  observedAt: number
+) {
+  const lastObservedAt = existing.metricsObservedAt ?? existing.webhookTimestamp;
+  if (observedAt < lastObservedAt) {
+    return false;
+  }
+
+  const changed =
+    metrics.likeCount !== existing.likeCount ||
+    metrics.retweetCount !== existing.retweetCount ||
+    metrics.replyCount !== existing.replyCount;
+  if (!changed) {
+    return false;
+  }
+
+  await ctx.db.patch(existing._id, {
+    likeCount: metrics.likeCount,
+    retweetCount: metrics.retweetCount,
+    replyCount: metrics.replyCount,
+    metricsObservedAt: observedAt,
+  });
+  await recordMetricSnapshot(ctx, existing._id, metrics, observedAt);
+  return true;
+}
+
+export type InsertTweetsOptions = {
+  // Journal entry the tweets came from
+  deliveryId?: string;
+  // Rebuild already-stored tweets from this payload instead of skipping them
+  renormalize?: boolean;
+};
+
+// Insert tweets with deduplication (shared by the webhook and delivery replays)
+export async function insertTweets(
+  ctx: MutationCtx,
+  payload: WebhookPayload,
+  options: InsertTweetsOptions = {}
+) {
+  const { event_type, rule_id, rule_tag, tweets, timestamp } = payload;
+  let insertedCount = 0;
+  let skippedCount = 0;
+  let updatedCount = 0;
+  let renormalizedCount = 0;
+  const insertedTweetIds: Id<"tweets">[] = [];
+  const sourceRule = await getSourceRuleByUpstreamId(ctx, rule_id);
+
+  for (const tweet of tweets) {
+    // Normalized tweet fields, shared by inserts and renormalization
+    const fields = {
+      tweetId: tweet.id,
+      text: tweet.text,
+      authorId: tweet.author.id,
+      authorUsername: tweet.author.userName,
+      authorName: tweet.author.name,
+      authorFollowersCount: tweet.author.followers_count,
+      authorVerified: tweet.author.verified,
+      tweetCreatedAt: tweet.created_at,
+      retweetCount: tweet.retweet_count,
+      likeCount: tweet.like_count,
+      replyCount: tweet.reply_count,
+      inReplyToId: tweet.in_reply_to_id,
+      conversationId: tweet.conversation_id,
+      quotedTweetId: tweet.quoted_tweet?.id,
+      quotedTweetText: tweet.quoted_tweet?.text,
+      quotedTweetAuthorUsername: tweet.quoted_tweet?.author_username,
+      mentionedUsernames: tweet.mentions ?? [],
+      hashtags: tweet.hashtags ?? [],
+      extractedEntities: extractEntities(tweet.text, Date.parse(tweet.created_at) || timestamp),
+      expandedUrls: tweet.urls ?? [],
+      media: (tweet.media ?? []).map((item) => ({
+        type: item.type,
+        url: item.url,
+        previewUrl: item.preview_url,
+      })),
+      eventType: event_type,
+      ruleId: rule_id,
+      ruleTag: rule_tag,
+      sourceRuleId: sourceRule?._id,
+      webhookTimestamp: timestamp,
+      deliveryId: options.deliveryId,
+      rawPayload: tweet,
+    };
+
+    // Check for existing tweet by tweetId
+    const existing = await ctx.db
+      .query("tweets")
+      .withIndex("by_tweet_id", (q) => q.eq("tweetId", tweet.id))
+      .first();
+
+    if (existing) {
+      if (options.renormalize) {
+        // Keep routing state, only rebuild the normalized fields
+        await ctx.db.patch(existing._id, fields);
+        if (!existing.threadId) {
+          await attachToConversation(ctx, existing._id);
+        }
+        renormalizedCount++;
+      } else if (await refreshTweetMetrics(ctx, existing, fields, timestamp)) {
+        updatedCount++;
+      } else {
+        skippedCount++;
+      }
+      continue;
+    }
+
+    // Insert normalized tweet data with pending routing status
+    const insertedId = await ctx.db.insert("tweets", {
+      ...fields,
+      ...scoreTweet(fields, null),
+      metricsObservedAt: timestamp,
+      routingStatus: "pending",
+    });
+    await recordMetricSnapshot(ctx, insertedId, fields, timestamp);
+    await attachToConversation(ctx, insertedId);
+
+    insertedTweetIds.push(insertedId);
+    insertedCount++;
+  }
+
+  return { insertedCount, skippedCount, updatedCount, renormalizedCount, insertedTweetIds };
+}
+
 // Internal mutation to store tweets with deduplication
 export const storeTweets = internalMutation({
   args: {
     payload: webhookPayloadValidator,
+    deliveryId: v.optional(v.string()),
+    renormalize: v.optional(v.boolean()),
   },
-  handler: async (ctx, { payload }) => {
-    const { event_type, rule_id, rule_tag, tweets, timestamp } = payload;
-    let insertedCount = 0;
-    let skippedCount = 0;
-    const insertedTweetIds: Id<"tweets">[] = [];
-
-    for (const tweet of tweets) {
-      // Check for existing tweet by tweetId
-      const existing = await ctx.db
-        .query("tweets")
-        .withIndex("by_tweet_id", (q) => q.eq("tweetId", tweet.id))
-        .first();
-
-      if (existing) {
-        skippedCount++;
-        continue;
-      }
-
-      // Insert normalized tweet data with pending routing status
-      const insertedId = await ctx.db.insert("tweets", {
-        tweetId: tweet.id,
-        text: tweet.text,
-        authorId: tweet.author.id,
-        authorUsername: tweet.author.userName,
-        authorName: tweet.author.name,
-        tweetCreatedAt: tweet.created_at,
-        retweetCount: tweet.retweet_count,
-        likeCount: tweet.like_count,
-        replyCount: tweet.reply_count,
-        eventType: event_type,
-        ruleId: rule_id,
-        ruleTag: rule_tag,
-        webhookTimestamp: timestamp,
-        rawPayload: tweet,
-        routingStatus: "pending",
-      });
-
-      insertedTweetIds.push(insertedId);
-      insertedCount++;
-    }
-
-    return { insertedCount, skippedCount, insertedTweetIds };
+  handler: async (ctx, { payload, deliveryId, renormalize }) => {
+    return await insertTweets(ctx, payload, { deliveryId, renormalize });
   },
 });
 
-// Query to fetch tweets by rule_id
+// Query to fetch tweets by rule_id, along with the mirrored filter rule if there is one
 export const getTweetsByRule = query({
   args: {
     ruleId: v.string(),
   },
   handler: async (ctx, { ruleId }) => {
-    return await ctx.db
+    const rule = await getSourceRuleByUpstreamId(ctx, ruleId);
+    const tweets = await ctx.db
       .query("tweets")
       .withIndex("by_rule_id", (q) => q.eq("ruleId", ruleId))
       .collect();
+
+    return { rule, tweets };
+  },
+});
+
+// Query to fetch a tweet's engagement history, oldest first
+export const getTweetMetricHistory = query({
+  args: {
+    tweetId: v.id("tweets"),
+  },
+  handler: async (ctx, { tweetId }) => {
+    return await ctx.db
+      .query("tweetMetricSnapshots")
+      .withIndex("by_tweet", (q) => q.eq("tweetId", tweetId))
+      .collect();
   },
 });
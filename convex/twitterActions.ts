@@ -1,6 +1,8 @@
 import { v } from "convex/values";
-import { action, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { action, internalMutation, internalQuery, mutation, MutationCtx, query } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
+import { getThreadIdForTweet } from "./conversations";
 
 // Action to create a tweet via external API
 export const createTweet = action({
@@ -186,6 +188,7 @@ export const createPendingResponse = internalMutation({
   handler: async (ctx, args) => {
     return await ctx.db.insert("tweetResponses", {
       originalTweetId: args.originalTweetId,
+      threadId: await getThreadIdForTweet(ctx, args.originalTweetId),
       routingRuleId: args.routingRuleId,
       responseText: args.responseText,
       status: "pending",
@@ -194,6 +197,27 @@ export const createPendingResponse = internalMutation({
   },
 });
 
+async function markResponded(ctx: MutationCtx, response: Doc<"tweetResponses">) {
+  const tweet = await ctx.db
+    .query("tweets")
+    .withIndex("by_tweet_id", (q) => q.eq("tweetId", response.originalTweetId))
+    .first();
+  if (tweet) {
+    await ctx.db.patch(tweet._id, { routingStatus: "responded" });
+  }
+
+  if (response.threadId) {
+    const conversation = await ctx.db.get(response.threadId);
+    if (conversation) {
+      await ctx.db.patch(conversation._id, {
+        routingStatus: "responded",
+        matchedRuleId: conversation.matchedRuleId ?? response.routingRuleId,
+        lastActivityAt: Math.max(conversation.lastActivityAt, response.sentAt ?? Date.now()),
+      });
+    }
+  }
+}
+
 // Internal mutation to update response status
 export const updateResponseStatus = internalMutation({
   args: {
@@ -225,6 +249,14 @@ export const updateResponseStatus = internalMutation({
     }
 
     await ctx.db.patch(args.responseId, updates);
+
+    // A sent reply marks the original tweet and its conversation as responded
+    if (args.status === "sent") {
+      const response = await ctx.db.get(args.responseId);
+      if (response) {
+        await markResponded(ctx, response);
+      }
+    }
   },
 });
 
@@ -264,6 +296,7 @@ export const createManualResponse = mutation({
   handler: async (ctx, args) => {
     return await ctx.db.insert("tweetResponses", {
       originalTweetId: args.originalTweetId,
+      threadId: await getThreadIdForTweet(ctx, args.originalTweetId),
       responseText: args.responseText,
       status: "pending",
       createdAt: Date.now(),
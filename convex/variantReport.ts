@@ -0,0 +1,77 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { tweetTimestamp } from "./conversations";
+
+// Follow-ups that read as unhappy with our reply
+const NEGATIVE_REPLY_PATTERN =
+  /\b(worst|terrible|useless|pathetic|disgusting|horrible|awful|ridiculous|unacceptable|shame|fraud|scam|rude|bot|copy[- ]paste|same reply|never again)\b/i;
+
+// Follow-ups saying the passenger took the conversation to DM
+const MOVED_TO_DM_PATTERN = /\b(dm|dms|dm'?d|dmed|direct message|inbox(ed)?|messaged you|sent (you )?(a |the )?(message|details))\b/i;
+
+// Label for replies sent before the rule had variants
+const DEFAULT_VARIANT_KEY = "(template)";
+// Label for replies combining several rules' responses, which belong to no single variant
+const MERGED_VARIANT_KEY = "(merged)";
+
+// Query to compare a rule's response variants on what passengers did after our reply
+export const getVariantReport = query({
+  args: {
+    ruleId: v.id("routingRules"),
+  },
+  handler: async (ctx, { ruleId }) => {
+    const responses = await ctx.db
+      .query("tweetResponses")
+      .withIndex("by_rule", (q) => q.eq("routingRuleId", ruleId))
+      .collect();
+
+    const variants = new Map<
+      string,
+      { variantKey: string; queued: number; sent: number; followedUp: number; negative: number; movedToDm: number }
+    >();
+
+    for (const response of responses) {
+      const variantKey = response.merged ? MERGED_VARIANT_KEY : (response.variantKey ?? DEFAULT_VARIANT_KEY);
+      const stats = variants.get(variantKey) ?? {
+        variantKey,
+        queued: 0,
+        sent: 0,
+        followedUp: 0,
+        negative: 0,
+        movedToDm: 0,
+      };
+      variants.set(variantKey, stats);
+      stats.queued += 1;
+
+      if (response.status !== "sent" || response.sentAt === undefined) {
+        continue;
+      }
+      stats.sent += 1;
+
+      // The passenger's tweets in the same conversation after our reply went out
+      const sentAt = response.sentAt;
+      const followUps = response.threadId
+        ? (
+            await ctx.db
+              .query("tweets")
+              .withIndex("by_thread", (q) => q.eq("threadId", response.threadId))
+              .collect()
+          ).filter((tweet) => tweet.tweetId !== response.originalTweetId && tweetTimestamp(tweet) > sentAt)
+        : [];
+
+      if (followUps.length > 0) stats.followedUp += 1;
+      if (followUps.some((tweet) => NEGATIVE_REPLY_PATTERN.test(tweet.text))) stats.negative += 1;
+      if (followUps.some((tweet) => MOVED_TO_DM_PATTERN.test(tweet.text))) stats.movedToDm += 1;
+    }
+
+    const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+    return [...variants.values()]
+      .map((stats) => ({
+        ...stats,
+        followUpRate: rate(stats.followedUp, stats.sent),
+        negativeRate: rate(stats.negative, stats.sent),
+        movedToDmRate: rate(stats.movedToDm, stats.sent),
+      }))
+      .sort((a, b) => a.variantKey.localeCompare(b.variantKey));
+  },
+});
@@ -0,0 +1,122 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+
+// Headers carrying the shared-secret signature
+export const SIGNATURE_HEADER = "x-webhook-signature";
+export const TIMESTAMP_HEADER = "x-webhook-timestamp";
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const MAX_PRUNED_NONCES = 100;
+
+export type SignatureCheck =
+  | { ok: true; nonce: string; expiresAt: number }
+  | { ok: false; reason: string };
+
+// Read signing config from the environment (verification is off without a secret)
+export function getWebhookAuthConfig() {
+  const secret = process.env.TWITTER_WEBHOOK_SECRET;
+  const tolerance = Number(process.env.TWITTER_WEBHOOK_TOLERANCE_SECONDS);
+  return {
+    secret: secret || null,
+    toleranceSeconds: Number.isFinite(tolerance) && tolerance > 0 ? tolerance : DEFAULT_TOLERANCE_SECONDS,
+  };
+}
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Compare two strings without short-circuiting on the first mismatch
+export function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// HMAC-SHA256 of `${timestamp}.${rawBody}`, hex encoded
+export async function signWebhookBody(secret: string, timestamp: string, rawBody: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${rawBody}`));
+  return toHex(signature);
+}
+
+// Check signature and timestamp headers against the raw body.
+// The signature doubles as the nonce, since it is unique per timestamp and body.
+export async function verifyWebhookSignature(
+  headers: Headers,
+  rawBody: string,
+  secret: string,
+  toleranceSeconds: number,
+  now: number = Date.now()
+): Promise<SignatureCheck> {
+  const signatureHeader = headers.get(SIGNATURE_HEADER);
+  const timestampHeader = headers.get(TIMESTAMP_HEADER);
+
+  if (!signatureHeader || !timestampHeader) {
+    return { ok: false, reason: "Missing signature headers" };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isFinite(timestamp)) {
+    return { ok: false, reason: "Invalid timestamp header" };
+  }
+
+  // Accept both seconds and milliseconds
+  const timestampMs = timestamp > 1e12 ? timestamp : timestamp * 1000;
+  const toleranceMs = toleranceSeconds * 1000;
+  if (Math.abs(now - timestampMs) > toleranceMs) {
+    return { ok: false, reason: "Timestamp outside tolerance window" };
+  }
+
+  const provided = signatureHeader.replace(/^sha256=/, "").toLowerCase();
+  const expected = await signWebhookBody(secret, timestampHeader, rawBody);
+  if (!timingSafeEqual(provided, expected)) {
+    return { ok: false, reason: "Signature mismatch" };
+  }
+
+  return { ok: true, nonce: expected, expiresAt: timestampMs + toleranceMs };
+}
+
+// Internal mutation to claim a nonce; returns false if it was already seen
+export const claimWebhookNonce = internalMutation({
+  args: {
+    nonce: v.string(),
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, { nonce, expiresAt }) => {
+    // Prune a bounded number of expired nonces on every claim
+    const expired = await ctx.db
+      .query("webhookNonces")
+      .withIndex("by_expires_at", (q) => q.lt("expiresAt", Date.now()))
+      .take(MAX_PRUNED_NONCES);
+    for (const entry of expired) {
+      await ctx.db.delete(entry._id);
+    }
+
+    const existing = await ctx.db
+      .query("webhookNonces")
+      .withIndex("by_nonce", (q) => q.eq("nonce", nonce))
+      .first();
+
+    if (existing) {
+      return { accepted: false };
+    }
+
+    await ctx.db.insert("webhookNonces", { nonce, expiresAt });
+    return { accepted: true };
+  },
+});
@@ -0,0 +1,177 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { action, ActionCtx, internalAction, internalMutation, query } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { DEFAULT_PROVIDER } from "./adapters/registry";
+import { appendJournalEntry, journalEntryFromPayload } from "./deliveryJournal";
+import { ingestDelivery } from "./ingestQueue";
+import { deliveryHeadersValidator, parseWebhookPayload, redactHeaders } from "./webhookPayload";
+
+// Largest body kept on a dead-letter entry (documents are capped at 1MB)
+const MAX_STORED_BODY_LENGTH = 500_000;
+// Most deliveries returned per page of listWebhookDeliveries
+const MAX_LISTED_DELIVERIES = 20;
+
+// Internal mutation to dead-letter a rejected webhook body
+export const recordRejectedDelivery = internalMutation({
+  args: {
+    provider: v.string(),
+    body: v.string(),
+    reason: v.string(),
+    detail: v.optional(v.string()),
+    headers: deliveryHeadersValidator,
+  },
+  handler: async (ctx, args) => {
+    const bodyTruncated = args.body.length > MAX_STORED_BODY_LENGTH;
+    return await ctx.db.insert("webhookDeliveries", {
+      provider: args.provider,
+      body: bodyTruncated ? args.body.slice(0, MAX_STORED_BODY_LENGTH) : args.body,
+      bodyTruncated,
+      reason: args.reason,
+      detail: args.detail,
+      headers: redactHeaders(args.headers),
+      status: "rejected",
+      receivedAt: Date.now(),
+    });
+  },
+});
+
+// Query to page through dead-lettered deliveries, newest first
+export const listWebhookDeliveries = query({
+  args: {
+    status: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { status, paginationOpts }) => {
+    // Each delivery can carry a body of up to MAX_STORED_BODY_LENGTH, so pages stay small
+    const page = { ...paginationOpts, numItems: Math.min(paginationOpts.numItems, MAX_LISTED_DELIVERIES) };
+    if (status) {
+      return await ctx.db
+        .query("webhookDeliveries")
+        .withIndex("by_status", (q) => q.eq("status", status))
+        .order("desc")
+        .paginate(page);
+    }
+    return await ctx.db.query("webhookDeliveries").order("desc").paginate(page);
+  },
+});
+
+// Internal mutation to check that a dead-lettered delivery can be replayed, with its stored
+// body or a corrected one, and journal it like a live delivery
+export const journalReplay = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    body: v.optional(v.string()),
+  },
+  handler: async (ctx, { deliveryId, body }) => {
+    const delivery = await ctx.db.get(deliveryId);
+    if (!delivery) {
+      return { success: false as const, message: "Delivery not found" };
+    }
+
+    if (delivery.status === "replayed") {
+      return { success: false as const, message: "Delivery has already been replayed" };
+    }
+    if (body === undefined && delivery.bodyTruncated) {
+      return { success: false as const, message: "Stored body is truncated; replay a corrected body with the CLI" };
+    }
+
+    const replayBody = body ?? delivery.body;
+    const provider = delivery.provider ?? DEFAULT_PROVIDER;
+    const parsed = parseWebhookPayload(replayBody, provider, delivery.receivedAt);
+    if (!parsed.ok) {
+      return { success: false as const, message: `${parsed.reason}: ${parsed.detail}` };
+    }
+
+    // A replayed delivery is accepted from now on, so journal it like a live one
+    const journalDeliveryId = `replay-${deliveryId}`;
+    await appendJournalEntry(
+      ctx,
+      journalEntryFromPayload(journalDeliveryId, provider, replayBody, delivery.headers, parsed.payload)
+    );
+    if (body !== undefined) {
+      await ctx.db.patch(deliveryId, {
+        body: body.length > MAX_STORED_BODY_LENGTH ? body.slice(0, MAX_STORED_BODY_LENGTH) : body,
+        bodyTruncated: body.length > MAX_STORED_BODY_LENGTH,
+      });
+    }
+
+    return { success: true as const, journalDeliveryId, provider, payload: parsed.payload };
+  },
+});
+
+// Internal mutation to mark a dead-lettered delivery replayed
+export const recordReplayResult = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    result: v.object({
+      inserted: v.number(),
+      updated: v.number(),
+      skipped: v.number(),
+      deferred: v.number(),
+    }),
+  },
+  handler: async (ctx, { deliveryId, result }) => {
+    await ctx.db.patch(deliveryId, {
+      status: "replayed",
+      replayedAt: Date.now(),
+      replayResult: result,
+    });
+  },
+});
+
+// Re-run a dead-lettered delivery through the same admission, chunking and routing as a
+// live one. A failed run leaves the delivery rejected; retrying it is safe, since the
+// journal and tweet storage both deduplicate.
+async function replayDelivery(
+  ctx: ActionCtx,
+  deliveryId: Id<"webhookDeliveries">,
+  body: string | undefined
+): Promise<{ success: boolean; message: string }> {
+  const claim = await ctx.runMutation(internal.webhookDeliveries.journalReplay, { deliveryId, body });
+  if (!claim.success) {
+    return claim;
+  }
+
+  const { inserted, updated, skipped, deferred } = await ingestDelivery(ctx, {
+    deliveryId: claim.journalDeliveryId,
+    provider: claim.provider,
+    payload: claim.payload,
+  });
+  await ctx.runMutation(internal.webhookDeliveries.recordReplayResult, {
+    deliveryId,
+    result: { inserted, updated, skipped, deferred },
+  });
+
+  return {
+    success: true,
+    message: `Replayed: ${inserted} inserted, ${updated} updated, ${skipped} skipped${
+      deferred > 0 ? `, ${deferred} queued` : ""
+    }`,
+  };
+}
+
+// Action to replay a dead-lettered delivery exactly as it was received. Bodies never pass
+// through here: the stored one already came in through the signed webhook.
+export const replayWebhookDelivery = action({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+  },
+  handler: async (ctx, { deliveryId }) => {
+    return await replayDelivery(ctx, deliveryId, undefined);
+  },
+});
+
+// Internal action to replay a dead-lettered delivery with a hand-corrected body. Unsigned
+// input, so it is only reachable with a deploy key:
+//   npx convex run webhookDeliveries:replayCorrectedWebhookDelivery '{"deliveryId": "...", "body": "..."}'
+export const replayCorrectedWebhookDelivery = internalAction({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    body: v.string(),
+  },
+  handler: async (ctx, { deliveryId, body }) => {
+    return await replayDelivery(ctx, deliveryId, body);
+  },
+});
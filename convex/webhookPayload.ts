@@ -0,0 +1,42 @@
+import { v } from "convex/values";
+import { DEFAULT_PROVIDER, getAdapter } from "./adapters/registry";
+import { ParseResult } from "./adapters/types";
+
+export const deliveryHeadersValidator = v.array(
+  v.object({
+    name: v.string(),
+    value: v.string(),
+  })
+);
+
+// Headers whose values are credentials or signatures; stored deliveries keep only their names
+const SENSITIVE_HEADER = /^(authorization|proxy-authorization|cookie|set-cookie)$|signature|token|secret|api[-_]?key|password/i;
+
+export function redactHeaders(headers: Array<{ name: string; value: string }>) {
+  return headers.map((header) =>
+    SENSITIVE_HEADER.test(header.name) ? { name: header.name, value: "[redacted]" } : header
+  );
+}
+
+// Flatten request headers into a storable list
+export function headersToEntries(headers: Headers) {
+  const entries: Array<{ name: string; value: string }> = [];
+  headers.forEach((value, name) => {
+    entries.push({ name, value });
+  });
+  return entries;
+}
+
+// Parse and validate a raw webhook body into the storeTweets payload shape,
+// using the ingestion adapter for the provider that sent it
+export function parseWebhookPayload(
+  text: string,
+  provider: string = DEFAULT_PROVIDER,
+  receivedAt: number = Date.now()
+): ParseResult {
+  const adapter = getAdapter(provider);
+  if (!adapter) {
+    return { ok: false, reason: "unknown_provider", detail: `No adapter for provider "${provider}"` };
+  }
+  return adapter.parse(text, { receivedAt });
+}